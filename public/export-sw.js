@@ -0,0 +1,71 @@
+// Streams exports to the browser's download manager when the File System Access API is missing.
+// The page sends a file's bytes over a MessageChannel; a hidden frame then requests
+// `__export__/<id>` and gets them back as a streamed attachment, so the file never sits in memory.
+// Each chunk is asked for only once the download has room, which holds the page back to its pace.
+
+const exports = new Map();
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  const { type, id, fileName, mime } = event.data ?? {};
+  const port = event.ports[0];
+  if (type !== "export" || !port) return;
+
+  // Port messages do not keep a service worker alive, so the export holds it open until it ends.
+  let settle;
+  event.waitUntil(new Promise((resolve) => (settle = resolve)));
+
+  let pulled;
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data }) => {
+          if (data.type === "chunk") {
+            controller.enqueue(data.chunk);
+            pulled?.();
+          } else if (data.type === "close") {
+            controller.close();
+            settle();
+          } else if (data.type === "abort") {
+            controller.error(new Error("Export cancelled"));
+            exports.delete(id);
+            settle();
+          }
+        };
+      },
+      pull() {
+        return new Promise((resolve) => {
+          pulled = resolve;
+          port.postMessage({ type: "pull" });
+        });
+      },
+      cancel() {
+        port.postMessage({ type: "cancel" });
+        exports.delete(id);
+        settle();
+      },
+    },
+    new CountQueuingStrategy({ highWaterMark: 4 })
+  );
+
+  exports.set(id, { stream, fileName, mime });
+  port.postMessage({ type: "ready" });
+});
+
+self.addEventListener("fetch", (event) => {
+  const match = new URL(event.request.url).pathname.match(/\/__export__\/([^/]+)$/);
+  const entry = match && exports.get(match[1]);
+  if (!entry) return;
+  exports.delete(match[1]);
+  event.respondWith(
+    new Response(entry.stream, {
+      headers: {
+        "Content-Type": entry.mime,
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(entry.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  );
+});
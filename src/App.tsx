@@ -4,9 +4,12 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Jobs from "./pages/Jobs";
+import Dashboards from "./pages/Dashboards";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// CrunchyClient already retries idempotent calls with backoff.
+const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -16,6 +19,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/tables/:table" element={<Index />} />
+          <Route path="/jobs" element={<Jobs />} />
+          <Route path="/dashboards" element={<Dashboards />} />
+          <Route path="/dashboards/:id" element={<Dashboards />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useSavedQueries } from "@/hooks/useSavedQueries";
+import { WIDGET_KINDS, type DashboardWidget, type WidgetKind } from "@/store/dashboards";
+
+interface AddWidgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (widget: Omit<DashboardWidget, "id">) => void;
+}
+
+const select = "h-9 rounded-md border bg-background px-3 text-sm";
+
+/** Pins a saved query to a dashboard as a table, chart or single number. */
+export function AddWidgetDialog({ open, onOpenChange, onAdd }: AddWidgetDialogProps) {
+  const { queries } = useSavedQueries();
+  const [queryId, setQueryId] = useState("");
+  const [kind, setKind] = useState<WidgetKind>("table");
+  const [title, setTitle] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setQueryId("");
+    setKind("table");
+    setTitle("");
+  }, [open]);
+
+  const saved = queries.find((q) => q.id === queryId);
+
+  const add = () => {
+    if (!saved) return;
+    onAdd({ title: title.trim() || saved.name, kind, table: saved.table, query: saved.query });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add widget</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Saved query</Label>
+            {queries.length ? (
+              <select className={select} value={queryId} onChange={(e) => setQueryId(e.target.value)}>
+                <option value="">Select a saved query…</option>
+                {queries.map((q) => (
+                  <option key={q.id} value={q.id}>
+                    {q.name} ({q.table})
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No saved queries yet. Save a query from the query view to pin it here.
+              </p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label>Show as</Label>
+            <select className={select} value={kind} onChange={(e) => setKind(e.target.value as WidgetKind)}>
+              {WIDGET_KINDS.map((k) => (
+                <option key={k.kind} value={k.kind}>
+                  {k.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="widget-title">Title</Label>
+            <Input
+              id="widget-title"
+              placeholder={saved?.name ?? "Defaults to the query name"}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={add} disabled={!saved}>
+            Add
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+import { useMemo, useRef, useState } from "react";
+import { format, isValid } from "date-fns";
+import { FileImage, FileCode } from "lucide-react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { toast } from "@/hooks/use-toast";
+import { useChartData } from "@/hooks/useChartData";
+import { cn } from "@/lib/utils";
+import { errorMessage } from "@/utils/api";
+import {
+  CHART_KINDS,
+  CHART_KIND_LABELS,
+  MAX_POINTS,
+  MAX_SERIES,
+  defaultChartSpec,
+  detectTimeColumn,
+  isNumericColumn,
+  pieSlices,
+  type ChartData,
+  type ChartKind,
+  type ChartSpec,
+} from "@/utils/chartData";
+import { chartToPngBlob, chartToSvgBlob, type LegendEntry } from "@/utils/chartExport";
+import type { ColumnDataType } from "@/utils/columnTypes";
+import { downloadBlob } from "@/utils/download";
+
+const color = (i: number) => `hsl(var(--chart-${(i % MAX_SERIES) + 1}))`;
+
+function formatTime(v: unknown) {
+  const d = new Date(v as string | number);
+  return isValid(d) ? format(d, "PP") : String(v);
+}
+
+function chartLegend(kind: ChartKind, chart: ChartData, time: boolean): LegendEntry[] {
+  if (kind === "pie") {
+    return pieSlices(chart.data, chart.series[0]?.key ?? "s0").map((d, i) => ({
+      label: time ? formatTime(d.x) : String(d.x),
+      color: color(i),
+    }));
+  }
+  return chart.series.map((s, i) => ({ label: s.label, color: color(i) }));
+}
+
+interface ChartPlotProps {
+  kind: ChartKind;
+  chart: ChartData;
+  /** Formats x values as dates. */
+  time?: boolean;
+  className?: string;
+}
+
+/** Renders chart data as the given kind of recharts chart. */
+export function ChartPlot({ kind, chart, time, className }: ChartPlotProps) {
+  const { data, series } = chart;
+  const config = useMemo(() => {
+    const c: ChartConfig = {};
+    series.forEach((s, i) => (c[s.key] = { label: s.label, color: color(i) }));
+    return c;
+  }, [series]);
+
+  const axes = (
+    <>
+      <CartesianGrid vertical={false} />
+      <XAxis
+        dataKey="x"
+        tickLine={false}
+        axisLine={false}
+        tickMargin={8}
+        minTickGap={24}
+        tickFormatter={time ? formatTime : undefined}
+      />
+      <YAxis tickLine={false} axisLine={false} width={56} />
+      <ChartTooltip
+        content={<ChartTooltipContent labelFormatter={time ? (_, p) => formatTime(p?.[0]?.payload?.x) : undefined} />}
+      />
+      {series.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+    </>
+  );
+
+  const plot = (() => {
+    switch (kind) {
+      case "bar":
+        return (
+          <BarChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Bar key={s.key} dataKey={s.key} fill={`var(--color-${s.key})`} radius={2} />
+            ))}
+          </BarChart>
+        );
+      case "line":
+        return (
+          <LineChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Line key={s.key} dataKey={s.key} stroke={`var(--color-${s.key})`} dot={false} strokeWidth={2} connectNulls />
+            ))}
+          </LineChart>
+        );
+      case "area":
+        return (
+          <AreaChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Area
+                key={s.key}
+                dataKey={s.key}
+                stroke={`var(--color-${s.key})`}
+                fill={`var(--color-${s.key})`}
+                fillOpacity={0.3}
+                connectNulls
+              />
+            ))}
+          </AreaChart>
+        );
+      case "scatter":
+        return (
+          <ScatterChart data={data}>
+            {axes}
+            {series.map((s) => (
+              <Scatter key={s.key} dataKey={s.key} fill={`var(--color-${s.key})`} />
+            ))}
+          </ScatterChart>
+        );
+      case "pie": {
+        const key = series[0]?.key ?? "s0";
+        const slices = pieSlices(data, key);
+        return (
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="x" hideLabel />} />
+            <Pie data={slices} dataKey={key} nameKey="x" innerRadius="40%">
+              {slices.map((_, i) => (
+                <Cell key={i} fill={color(i)} />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+      }
+    }
+  })();
+
+  return (
+    <ChartContainer config={config} className={cn("aspect-auto w-full", className)}>
+      {plot}
+    </ChartContainer>
+  );
+}
+
+interface ChartViewProps {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  columnTypes: Record<string, ColumnDataType | undefined>;
+  columnLabels?: Record<string, string>;
+  /** Base name for exported images. */
+  name?: string;
+}
+
+const emptySpec: ChartSpec = { kind: "bar", x: "", ys: [] };
+
+/** Charts the rows on screen: pick a chart kind, the x column, y columns and an optional series split. */
+export function ChartView({ columns, rows, columnTypes, columnLabels, name = "chart" }: ChartViewProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  // The spec is kept with the columns it was built for; other columns get a fresh default.
+  const [chosen, setChosen] = useState<{ key: string; spec: ChartSpec }>({ key: "", spec: emptySpec });
+  const patch = (p: Partial<ChartSpec>) => setChosen((c) => ({ ...c, spec: { ...c.spec, ...p } }));
+
+  const label = (c: string) => columnLabels?.[c] ?? c;
+  const numeric = useMemo(
+    () => columns.filter((c) => isNumericColumn(rows, c, columnTypes[c])),
+    [columns, rows, columnTypes]
+  );
+  const timeColumn = useMemo(() => detectTimeColumn(columns, rows, columnTypes), [columns, rows, columnTypes]);
+
+  // Only a change of columns resets the choices, not every new page of rows.
+  const specKey = `${columns.join("\u0000")}\u0001${rows.length > 0}`;
+  const current =
+    chosen.key === specKey ? chosen : { key: specKey, spec: defaultChartSpec(columns, rows, columnTypes) };
+  if (current !== chosen) setChosen(current);
+  const { spec } = current;
+
+  const { chart, time } = useChartData(rows, spec, columnTypes, columnLabels);
+
+  const onExport = async (type: "png" | "svg") => {
+    if (!chartRef.current) return;
+    const legend = chartLegend(spec.kind, chart, time);
+    try {
+      const blob =
+        type === "png" ? await chartToPngBlob(chartRef.current, legend) : chartToSvgBlob(chartRef.current, legend);
+      downloadBlob(blob, `${name}-chart.${type}`);
+    } catch (e) {
+      toast({ title: "Chart export failed", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  // A series split plots one measure, divided by the series column's values.
+  const toggleY = (c: string) =>
+    patch({
+      ys: spec.ys.includes(c)
+        ? spec.ys.filter((y) => y !== c)
+        : spec.series
+          ? [c]
+          : [...spec.ys, c].slice(-MAX_SERIES),
+    });
+
+  const select = "h-9 rounded-md border bg-background px-3 text-sm";
+
+  if (!columns.length || !rows.length) {
+    return <p className="py-16 text-center text-sm text-muted-foreground">Run a query to chart its results.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <div className="grid gap-2">
+          <Label>Chart</Label>
+          <select className={select} value={spec.kind} onChange={(e) => patch({ kind: e.target.value as ChartKind })}>
+            {CHART_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {CHART_KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <Label>{spec.kind === "pie" ? "Slices" : "X axis"}</Label>
+          <select className={select} value={spec.x} onChange={(e) => patch({ x: e.target.value })}>
+            {columns.map((c) => (
+              <option key={c} value={c}>
+                {label(c)}
+                {c === timeColumn ? " (time)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <Label>Series</Label>
+          <select
+            className={select}
+            value={spec.series ?? ""}
+            disabled={spec.kind === "pie"}
+            onChange={(e) =>
+              patch(e.target.value ? { series: e.target.value, ys: spec.ys.slice(0, 1) } : { series: undefined })
+            }
+          >
+            <option value="">None</option>
+            {columns
+              .filter((c) => c !== spec.x && !numeric.includes(c))
+              .map((c) => (
+                <option key={c} value={c}>
+                  {label(c)}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div className="flex items-end justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => onExport("png")} disabled={!chart.series.length}>
+            <FileImage className="mr-2 h-4 w-4" /> PNG
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onExport("svg")} disabled={!chart.series.length}>
+            <FileCode className="mr-2 h-4 w-4" /> SVG
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{spec.kind === "pie" ? "Value" : "Y axis"}</Label>
+        {numeric.length ? (
+          <div className="flex flex-wrap gap-2">
+            {numeric.map((c) => (
+              <button
+                key={c}
+                className={cn(
+                  "rounded-md border px-2 py-1 text-xs hover:bg-muted",
+                  spec.ys.includes(c) && "border-primary bg-primary text-primary-foreground hover:bg-primary/90"
+                )}
+                onClick={() => toggleY(c)}
+              >
+                {label(c)}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No numeric columns to plot.</p>
+        )}
+      </div>
+
+      {chart.series.length ? (
+        <div ref={chartRef}>
+          <ChartPlot kind={spec.kind} chart={chart} time={time} className="h-[420px]" />
+        </div>
+      ) : (
+        <p className="py-16 text-center text-sm text-muted-foreground">Pick at least one column to plot.</p>
+      )}
+      {chart.truncated && (
+        <p className="text-xs text-muted-foreground">Showing the first {MAX_POINTS.toLocaleString()} rows.</p>
+      )}
+      {spec.series && spec.kind !== "pie" && chart.series.length >= MAX_SERIES && (
+        <p className="text-xs text-muted-foreground">Only the first {MAX_SERIES} series are shown.</p>
+      )}
+      {spec.kind === "pie" && chart.data.length > MAX_SERIES && (
+        <p className="text-xs text-muted-foreground">
+          Slices after the first {MAX_SERIES - 1} are combined into "Other".
+        </p>
+      )}
+    </div>
+  );
+}
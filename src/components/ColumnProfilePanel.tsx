@@ -0,0 +1,127 @@
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useColumnProfile } from "@/hooks/useColumnProfile";
+import { errorMessage } from "@/utils/api";
+import { SAMPLE_ROWS, type ColumnProfile } from "@/utils/columnProfile";
+
+interface ColumnProfilePanelProps {
+  table: string;
+  /** Profiling scans the table, so it only runs while the panel is shown. */
+  enabled?: boolean;
+}
+
+function formatValue(v: unknown) {
+  if (v === null || v === undefined) return "—";
+  if (typeof v === "number") return v.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  const s = String(v);
+  return s === "" ? "(empty)" : s;
+}
+
+function Sparkline({ bins }: { bins: number[] }) {
+  if (!bins.length) return <span className="text-muted-foreground">—</span>;
+  const peak = Math.max(...bins) || 1;
+  const w = 4;
+  const h = 24;
+  return (
+    <svg width={bins.length * w} height={h} className="text-primary" aria-hidden>
+      {bins.map((b, i) => {
+        const bh = b ? Math.max(1, (b / peak) * h) : 0;
+        return <rect key={i} x={i * w} y={h - bh} width={w - 1} height={bh} fill="currentColor" />;
+      })}
+    </svg>
+  );
+}
+
+function NullShare({ p }: { p: ColumnProfile }) {
+  const pct = p.rows ? (p.nulls / p.rows) * 100 : 0;
+  return (
+    <div className="w-24 space-y-1">
+      <div className="tabular-nums">{pct.toFixed(pct > 0 && pct < 1 ? 2 : 1)}%</div>
+      <div className="h-1 rounded bg-muted">
+        <div className="h-1 rounded bg-destructive/70" style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/** Per-column overview of a table: type, nulls, distinct values, range, top values and distribution. */
+export function ColumnProfilePanel({ table, enabled = true }: ColumnProfilePanelProps) {
+  const { profiles, sampled, sampleSize, total, loading, error } = useColumnProfile(table, enabled);
+  const wholeTable = !error && (sampleSize < SAMPLE_ROWS || (total !== undefined && total <= sampleSize));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {loading ? (
+          <span className="inline-flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" /> Profiling…
+          </span>
+        ) : wholeTable ? (
+          `Profiled all ${sampleSize.toLocaleString()} rows.`
+        ) : sampled ? (
+          `The backend does not support aggregates here; profiled from the first ${sampleSize.toLocaleString()} rows.`
+        ) : (
+          `Counts, ranges and top values cover the whole table; histograms the first ${sampleSize.toLocaleString()} rows.`
+        )}
+      </p>
+      {error && <p className="text-sm text-destructive">Profiling failed: {errorMessage(error)}</p>}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead>Nulls</TableHead>
+            <TableHead className="text-right">Distinct</TableHead>
+            <TableHead>Min</TableHead>
+            <TableHead>Max</TableHead>
+            <TableHead className="text-right">Mean</TableHead>
+            <TableHead>Top values</TableHead>
+            <TableHead>Distribution</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {profiles.map((p) => (
+            <TableRow key={p.column}>
+              <TableCell className="max-w-[200px]">
+                <div className="truncate font-medium" title={p.column}>
+                  {p.column}
+                </div>
+                {p.type && (
+                  <Badge
+                    variant={p.inferred ? "outline" : "secondary"}
+                    title={p.inferred ? "Inferred from values" : undefined}
+                  >
+                    {p.type}
+                    {p.inferred && "?"}
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell>
+                <NullShare p={p} />
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{formatValue(p.distinct)}</TableCell>
+              <TableCell className="max-w-[160px] truncate">{formatValue(p.min)}</TableCell>
+              <TableCell className="max-w-[160px] truncate">{formatValue(p.max)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatValue(p.mean)}</TableCell>
+              <TableCell className="max-w-[240px]">
+                <ul className="space-y-0.5 text-xs">
+                  {p.top.map((t, i) => (
+                    <li key={i} className="flex justify-between gap-2">
+                      <span className="truncate" title={formatValue(t.value)}>
+                        {formatValue(t.value)}
+                      </span>
+                      <span className="shrink-0 tabular-nums text-muted-foreground">{t.count.toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </TableCell>
+              <TableCell>
+                <Sparkline bins={p.histogram} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TagInput } from "@/components/TagInput";
+import type { DashboardFilter } from "@/store/dashboards";
+import type { ColumnMeta } from "@/utils/api";
+import { isNumericType, isTemporalType } from "@/utils/columnTypes";
+import { randomId } from "@/utils/randomId";
+
+interface DashboardFilterBarProps {
+  filters: DashboardFilter[];
+  onChange: (filters: DashboardFilter[]) => void;
+  /** Columns of the widgets' tables; a filter applies to each widget whose table has its column. */
+  columns: ColumnMeta[];
+}
+
+const select = "h-9 rounded-md border bg-background px-2 text-sm";
+
+/** Filters shared by every widget on a dashboard, e.g. a date range. */
+export function DashboardFilterBar({ filters, onChange, columns }: DashboardFilterBarProps) {
+  const replace = (i: number, f: DashboardFilter) => onChange(filters.map((g, j) => (j === i ? f : g)));
+
+  const add = () => {
+    // A date column is the usual thing to filter a dashboard by.
+    const column = columns.find((c) => isTemporalType(c.data_type)) ?? columns[0];
+    onChange([...filters, { id: randomId(), type: "range", column: column?.name ?? "" }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {filters.map((f, i) => {
+        const type = columns.find((c) => c.name === f.column)?.data_type;
+        const inputType = isTemporalType(type) ? "date" : isNumericType(type) ? "number" : "text";
+        const options = columns.some((c) => c.name === f.column) ? columns : [{ name: f.column }, ...columns];
+        return (
+          <div key={f.id} className="flex flex-wrap items-center gap-2">
+            <select
+              className={`${select} w-48`}
+              value={f.column}
+              onChange={(e) => replace(i, { ...f, column: e.target.value })}
+            >
+              {options.map((c) => (
+                <option key={c.name} value={c.name}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <select
+              className={`${select} w-32`}
+              value={f.type}
+              onChange={(e) =>
+                replace(
+                  i,
+                  e.target.value === "values"
+                    ? { id: f.id, type: "values", column: f.column, values: [] }
+                    : { id: f.id, type: "range", column: f.column }
+                )
+              }
+            >
+              <option value="range">Between</option>
+              <option value="values">Is one of</option>
+            </select>
+            {f.type === "range" ? (
+              <>
+                <Input
+                  className="h-9 w-44"
+                  type={inputType}
+                  placeholder="From"
+                  value={f.from ?? ""}
+                  onChange={(e) => replace(i, { ...f, from: e.target.value || undefined })}
+                />
+                <span className="text-sm text-muted-foreground">and</span>
+                <Input
+                  className="h-9 w-44"
+                  type={inputType}
+                  placeholder="To"
+                  value={f.to ?? ""}
+                  onChange={(e) => replace(i, { ...f, to: e.target.value || undefined })}
+                />
+              </>
+            ) : (
+              <TagInput
+                className="min-w-[16rem] flex-1"
+                values={f.values}
+                onChange={(values) => replace(i, { ...f, values })}
+                placeholder="Type a value, Enter to add"
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => onChange(filters.filter((_, j) => j !== i))}
+              title="Remove filter"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button variant="secondary" size="sm" onClick={add} disabled={!columns.length}>
+        <Plus className="mr-1 h-4 w-4" /> Add filter
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ExternalLink,
+  Filter,
+  Loader2,
+  MoreHorizontal,
+  Settings2,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChartPlot } from "@/components/ChartView";
+import { DataGrid } from "@/components/DataGrid";
+import { useChartData } from "@/hooks/useChartData";
+import { useWidgetData } from "@/hooks/useWidgetData";
+import {
+  WIDGET_KINDS,
+  type DashboardFilter,
+  type DashboardWidget as Widget,
+  type WidgetKind,
+  type WidgetMove,
+} from "@/store/dashboards";
+import { errorMessage } from "@/utils/api";
+import {
+  CHART_KINDS,
+  CHART_KIND_LABELS,
+  defaultChartSpec,
+  isNumericColumn,
+  type ChartKind,
+  type ChartSpec,
+} from "@/utils/chartData";
+import { tablePath } from "@/utils/queryState";
+
+type WidgetData = ReturnType<typeof useWidgetData>;
+
+const select = "h-9 rounded-md border bg-background px-3 text-sm";
+
+function formatKpi(v: unknown) {
+  if (typeof v === "number") return v.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  return v === null || v === undefined ? "—" : String(v);
+}
+
+function WidgetChart({ data, spec }: { data: WidgetData; spec: ChartSpec }) {
+  const { chart, time } = useChartData(data.rows, spec, data.columnTypes, data.columnLabels);
+  if (!chart.series.length) return <p className="p-4 text-sm text-muted-foreground">Nothing to plot.</p>;
+  return <ChartPlot kind={spec.kind} chart={chart} time={time} className="h-full" />;
+}
+
+function WidgetKpi({ data, column }: { data: WidgetData; column?: string }) {
+  if (!column) return <p className="p-4 text-sm text-muted-foreground">No numeric column.</p>;
+  return (
+    <div className="flex h-full flex-col items-center justify-center gap-1">
+      <div className="text-4xl font-semibold tabular-nums">{formatKpi(data.rows[0]?.[column])}</div>
+      <div className="text-sm text-muted-foreground">{data.columnLabels?.[column] ?? column}</div>
+      {data.rows.length > 1 && <div className="text-xs text-muted-foreground">first of {data.rows.length} rows</div>}
+    </div>
+  );
+}
+
+interface WidgetSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  widget: Widget;
+  /** The chart and KPI column as currently shown, defaults included. */
+  chart: ChartSpec;
+  kpiColumn?: string;
+  data: WidgetData;
+  onSave: (patch: Partial<Omit<Widget, "id">>) => void;
+}
+
+function WidgetSettingsDialog({ open, onOpenChange, ...form }: WidgetSettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        {/* Mounted only while open, so each opening starts from the widget as shown, not on every refresh. */}
+        {open && <WidgetSettingsForm {...form} onClose={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type WidgetSettingsFormProps = Omit<WidgetSettingsDialogProps, "open" | "onOpenChange"> & { onClose: () => void };
+
+function WidgetSettingsForm({ widget, chart, kpiColumn, data, onSave, onClose }: WidgetSettingsFormProps) {
+  const [title, setTitle] = useState(widget.title);
+  const [kind, setKind] = useState<WidgetKind>(widget.kind);
+  const [spec, setSpec] = useState<ChartSpec>(chart);
+  const [kpi, setKpi] = useState(kpiColumn ?? "");
+
+  const label = (c: string) => data.columnLabels?.[c] ?? c;
+  const numeric = data.columns.filter((c) => isNumericColumn(data.rows, c, data.columnTypes[c]));
+  const columnOptions = (columns: string[]) =>
+    columns.map((c) => (
+      <option key={c} value={c}>
+        {label(c)}
+      </option>
+    ));
+
+  const save = () => {
+    onSave({
+      title: title.trim() || widget.title,
+      kind,
+      chart: kind === "chart" ? spec : widget.chart,
+      kpiColumn: kind === "kpi" ? kpi || undefined : widget.kpiColumn,
+    });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Widget settings</DialogTitle>
+      </DialogHeader>
+      <div className="grid gap-4 py-2">
+        <div className="grid gap-2">
+          <Label htmlFor="widget-title">Title</Label>
+          <Input id="widget-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+        <div className="grid gap-2">
+          <Label>Show as</Label>
+          <select className={select} value={kind} onChange={(e) => setKind(e.target.value as WidgetKind)}>
+            {WIDGET_KINDS.map((k) => (
+              <option key={k.kind} value={k.kind}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {kind === "chart" && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label>Chart</Label>
+              <select
+                className={select}
+                value={spec.kind}
+                onChange={(e) => setSpec({ ...spec, kind: e.target.value as ChartKind })}
+              >
+                {CHART_KINDS.map((k) => (
+                  <option key={k} value={k}>
+                    {CHART_KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label>X axis</Label>
+              <select className={select} value={spec.x} onChange={(e) => setSpec({ ...spec, x: e.target.value })}>
+                {columnOptions(data.columns)}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Y axis</Label>
+              <select
+                className={select}
+                value={spec.ys[0] ?? ""}
+                onChange={(e) => setSpec({ ...spec, ys: e.target.value ? [e.target.value] : [] })}
+              >
+                <option value="">None</option>
+                {columnOptions(numeric)}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Series</Label>
+              <select
+                className={select}
+                value={spec.series ?? ""}
+                disabled={spec.kind === "pie"}
+                onChange={(e) => setSpec({ ...spec, series: e.target.value || undefined })}
+              >
+                <option value="">None</option>
+                {columnOptions(data.columns.filter((c) => c !== spec.x && !numeric.includes(c)))}
+              </select>
+            </div>
+          </div>
+        )}
+        {kind === "kpi" && (
+          <div className="grid gap-2">
+            <Label>Value</Label>
+            <select className={select} value={kpi} onChange={(e) => setKpi(e.target.value)}>
+              {columnOptions(data.columns)}
+            </select>
+            <p className="text-xs text-muted-foreground">Shows the value in the first row, e.g. of an aggregate query.</p>
+          </div>
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={save}>Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+interface DashboardWidgetProps {
+  widget: Widget;
+  filters: DashboardFilter[];
+  refreshSeconds: number;
+  onChange: (patch: Partial<Omit<Widget, "id">>) => void;
+  onMove: (move: WidgetMove) => void;
+  onRemove: () => void;
+}
+
+/** One query result on a dashboard, shown as a table, a chart or a single number. */
+export function DashboardWidget({ widget, filters, refreshSeconds, onChange, onMove, onRemove }: DashboardWidgetProps) {
+  const navigate = useNavigate();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const data = useWidgetData(widget, filters, refreshSeconds);
+
+  const chart = useMemo(
+    () => widget.chart ?? defaultChartSpec(data.columns, data.rows, data.columnTypes),
+    [widget.chart, data.columns, data.rows, data.columnTypes]
+  );
+  const kpiColumn =
+    widget.kpiColumn ?? data.columns.find((c) => isNumericColumn(data.rows, c, data.columnTypes[c])) ?? data.columns[0];
+
+  const moves: { move: WidgetMove; label: string; icon: typeof ArrowUp }[] = [
+    { move: "left", label: "Move left", icon: ArrowLeft },
+    { move: "right", label: "Move right", icon: ArrowRight },
+    { move: "up", label: "Move up", icon: ArrowUp },
+    { move: "down", label: "Move down", icon: ArrowDown },
+  ];
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-2 border-b px-3 py-2">
+        <div className="min-w-0 flex-1 truncate text-sm font-medium" title={widget.title}>
+          {widget.title}
+        </div>
+        {data.applied > 0 && (
+          <span title={`${data.applied} dashboard filter condition(s) applied`}>
+            <Filter className="h-3.5 w-3.5 text-muted-foreground" />
+          </span>
+        )}
+        {data.loading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+        {data.updatedAt > 0 && (
+          <span className="text-xs text-muted-foreground">{new Date(data.updatedAt).toLocaleTimeString()}</span>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7" title="Widget options">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => setSettingsOpen(true)}>
+              <Settings2 className="mr-2 h-4 w-4" /> Settings…
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => navigate(tablePath(widget.table, widget.query))}>
+              <ExternalLink className="mr-2 h-4 w-4" /> Open in query view
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            {moves.map(({ move, label, icon: Icon }) => (
+              <DropdownMenuItem key={move} onSelect={() => onMove(move)}>
+                <Icon className="mr-2 h-4 w-4" /> {label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={onRemove} className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" /> Remove
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div className="min-h-0 flex-1 p-2">
+        {data.error ? (
+          <p className="p-2 text-sm text-destructive">Query failed: {errorMessage(data.error)}</p>
+        ) : !data.rows.length ? (
+          <p className="p-2 text-sm text-muted-foreground">{data.loading ? "Loading…" : "No rows."}</p>
+        ) : widget.kind === "chart" ? (
+          <WidgetChart data={data} spec={chart} />
+        ) : widget.kind === "kpi" ? (
+          <WidgetKpi data={data} column={kpiColumn} />
+        ) : (
+          <DataGrid
+            columns={data.columns}
+            rows={data.rows}
+            columnTypes={data.columnTypes}
+            columnLabels={data.columnLabels}
+            height="100%"
+          />
+        )}
+      </div>
+      <WidgetSettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        widget={widget}
+        chart={chart}
+        kpiColumn={kpiColumn}
+        data={data}
+        onSave={onChange}
+      />
+    </div>
+  );
+}
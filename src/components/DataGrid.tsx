@@ -7,11 +7,47 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import type { SortKey } from "@/utils/api";
+import { isNumericType, type ColumnDataType } from "@/utils/columnTypes";
+import { toggleSort } from "@/utils/sortKeys";
+
+/** Rows looked up by index for infinite scrolling; rows not loaded yet are undefined. */
+export interface RowSource {
+  count: number;
+  getRow: (index: number) => Record<string, unknown> | undefined;
+  onRangeChange: (start: number, end: number) => void;
+  onEndReached?: () => void;
+}
 
 interface DataGridProps {
   columns: string[];
+  /** The rows to show, or with `source`, a sample used to size the columns. */
   rows: any[];
-  height?: number;
+  source?: RowSource;
+  /** Declared column types; numeric columns are right-aligned. */
+  columnTypes?: Record<string, ColumnDataType | undefined>;
+  /** Header text per column, e.g. "Sum of revenue" for an aggregate; defaults to the column name. */
+  columnLabels?: Record<string, string>;
+  /** Current sort keys; with `onSortChange`, headers sort on click and shift-click adds secondary keys. */
+  sort?: SortKey[];
+  onSortChange?: (sort: SortKey[]) => void;
+  /** Pixels, or a CSS height such as "100%" to fill a sized container. */
+  height?: number | string;
+}
+
+function SortIndicator({ sort, column }: { sort: SortKey[]; column: string }) {
+  const i = sort.findIndex((k) => k.column === column);
+  if (i === -1) return null;
+  const Arrow = sort[i].direction === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <span className="inline-flex shrink-0 items-center text-foreground">
+      <Arrow className="h-3.5 w-3.5" />
+      {sort.length > 1 && <span className="text-[10px] font-semibold">{i + 1}</span>}
+    </span>
+  );
 }
 
 // Estimate column width based on header + sample content lengths
@@ -35,7 +71,16 @@ function useColumnWidths(columns: string[], rows: any[]) {
   }, [columns, rows]);
 }
 
-export function DataGrid({ columns, rows, height = 520 }: DataGridProps) {
+export function DataGrid({
+  columns,
+  rows,
+  source,
+  columnTypes,
+  columnLabels,
+  sort = [],
+  onSortChange,
+  height = 520,
+}: DataGridProps) {
   const colWidths = useColumnWidths(columns, rows);
   const totalWidth = useMemo(() => colWidths.reduce((a, b) => a + b, 0), [colWidths]);
   const scrollerRef = useRef<HTMLDivElement | null>(null);
@@ -87,26 +132,66 @@ export function DataGrid({ columns, rows, height = 520 }: DataGridProps) {
   return (
     <div className="relative">
       <TableVirtuoso
-        data={rows}
+        {...(source
+          ? {
+              totalCount: source.count,
+              rangeChanged: (r) => source.onRangeChange(r.startIndex, r.endIndex),
+              endReached: source.onEndReached,
+            }
+          : { data: rows })}
         fixedHeaderContent={() => (
           <TableRow>
             {columns.map((c) => (
-              <TableHead key={c} className="align-middle font-medium text-muted-foreground">
-                {c}
+              <TableHead
+                key={c}
+                className={cn(
+                  "align-middle font-medium text-muted-foreground",
+                  isNumericType(columnTypes?.[c]) && "text-right"
+                )}
+                title={[columnLabels?.[c] && c, columnTypes?.[c]].filter(Boolean).join(" · ") || undefined}
+              >
+                {onSortChange ? (
+                  <button
+                    className={cn(
+                      "flex w-full select-none items-center gap-1 hover:text-foreground",
+                      isNumericType(columnTypes?.[c]) && "justify-end"
+                    )}
+                    onClick={(e) => onSortChange(toggleSort(sort, c, e.shiftKey))}
+                    title="Click to sort, shift-click to add a secondary sort"
+                  >
+                    <span className="truncate">{columnLabels?.[c] ?? c}</span>
+                    <SortIndicator sort={sort} column={c} />
+                  </button>
+                ) : (
+                  (columnLabels?.[c] ?? c)
+                )}
               </TableHead>
             ))}
           </TableRow>
         )}
         components={components}
-        itemContent={(index) => (
-          <>
-            {columns.map((c) => (
-              <TableCell key={c} className="whitespace-pre-wrap break-words align-top text-sm" dir="auto">
-                {String(rows[index]?.[c] ?? "")}
+        itemContent={(index) => {
+          const row = source ? source.getRow(index) : rows[index];
+          if (!row) {
+            return columns.map((c) => (
+              <TableCell key={c}>
+                <Skeleton className="h-4 w-3/4" />
               </TableCell>
-            ))}
-          </>
-        )}
+            ));
+          }
+          return columns.map((c) => (
+            <TableCell
+              key={c}
+              className={cn(
+                "whitespace-pre-wrap break-words align-top text-sm",
+                isNumericType(columnTypes?.[c]) && "text-right tabular-nums"
+              )}
+              dir="auto"
+            >
+              {String(row[c] ?? "")}
+            </TableCell>
+          ));
+        }}
         style={{ height }}
       />
     </div>
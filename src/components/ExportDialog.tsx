@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  MAX_XLSX_ROWS,
+  exportFormatInfo,
+  type ExportFormat,
+  type ExportOptions,
+} from "@/utils/exportFormats";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Start of the offered file name; a timestamp is appended when the dialog opens. */
+  baseName: string;
+  onExport: (options: ExportOptions, fileName: string) => void;
+}
+
+const DELIMITERS = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+const QUOTES = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+const selectClass = "h-9 rounded-md border bg-background px-3 text-sm";
+
+/** Format and options of a result export. Options persist while the view is open. */
+export function ExportDialog({ open, onOpenChange, baseName, onExport }: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [name, setName] = useState("");
+  const set = (patch: Partial<ExportOptions>) => setOptions((o) => ({ ...o, ...patch }));
+  const delimited = options.format === "csv" || options.format === "tsv";
+  const { extension } = exportFormatInfo(options.format);
+
+  useEffect(() => {
+    if (open) setName(`${baseName}-${format(new Date(), "yyyyMMdd-HHmmss")}`);
+  }, [open, baseName]);
+
+  const submit = () => {
+    onExport(options, `${name.trim() || baseName}.${extension}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export results</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="export-format">Format</Label>
+            <select
+              id="export-format"
+              className={selectClass}
+              value={options.format}
+              onChange={(e) => set({ format: e.target.value as ExportFormat })}
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.format} value={f.format}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            {options.format === "xlsx" && (
+              <p className="text-xs text-muted-foreground">
+                Workbooks are assembled in memory and hold at most {MAX_XLSX_ROWS.toLocaleString()} rows.
+              </p>
+            )}
+          </div>
+          {delimited && (
+            <div className="grid grid-cols-2 gap-4">
+              {options.format === "csv" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="export-delimiter">Delimiter</Label>
+                  <select
+                    id="export-delimiter"
+                    className={selectClass}
+                    value={options.delimiter}
+                    onChange={(e) => set({ delimiter: e.target.value })}
+                  >
+                    {DELIMITERS.map((d) => (
+                      <option key={d.value} value={d.value}>
+                        {d.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="export-quote">Quote</Label>
+                <select
+                  id="export-quote"
+                  className={selectClass}
+                  value={options.quote}
+                  onChange={(e) => set({ quote: e.target.value })}
+                >
+                  {QUOTES.map((q) => (
+                    <option key={q.value} value={q.value}>
+                      {q.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="export-header" checked={options.header} onCheckedChange={(v) => set({ header: v })} />
+                <Label htmlFor="export-header">Header row</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="export-quote-all" checked={options.quoteAll} onCheckedChange={(v) => set({ quoteAll: v })} />
+                <Label htmlFor="export-quote-all">Quote every field</Label>
+              </div>
+              <div className="flex items-center gap-2" title="Lets Excel detect UTF-8">
+                <Switch id="export-bom" checked={options.bom} onCheckedChange={(v) => set({ bom: v })} />
+                <Label htmlFor="export-bom">Byte order mark</Label>
+              </div>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="export-name">File name</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="export-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && submit()}
+              />
+              <span className="text-sm text-muted-foreground">.{extension}</span>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit}>Export</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
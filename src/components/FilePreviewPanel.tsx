@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DataGrid } from "@/components/DataGrid";
+import { SheetPicker } from "@/components/SheetPicker";
+import { IngestTargetPicker } from "@/components/IngestTargetPicker";
+import { useFilePreview } from "@/hooks/useFilePreview";
+import { useUploadQueueStore, type QueueItem } from "@/store/uploadQueue";
+import type { IngestOptions } from "@/utils/api";
+import { COLUMN_DATA_TYPES, type ColumnDataType } from "@/utils/columnTypes";
+import { DELIMITERS, ENCODINGS, QUOTE_CHARS, isExcelFile } from "@/utils/filePreview";
+
+interface FilePreviewPanelProps {
+  item: QueueItem;
+}
+
+const DELIMITER_LABELS: Record<string, string> = { ",": "Comma (,)", ";": "Semicolon (;)", "\t": "Tab", "|": "Pipe (|)" };
+
+/**
+ * Shows the first rows of a staged file as parsed in the browser, with the
+ * detected settings. Changing a setting stores it on the queue item as an
+ * override that is sent to the backend with the upload.
+ */
+export function FilePreviewPanel({ item }: FilePreviewPanelProps) {
+  const update = useUploadQueueStore((s) => s.update);
+  const excel = isExcelFile(item.file);
+  const [previewSheet, setPreviewSheet] = useState<string | undefined>(undefined);
+  const overrides = useMemo(
+    () => (excel && previewSheet ? { ...item.ingest, sheet: previewSheet } : item.ingest),
+    [excel, previewSheet, item.ingest]
+  );
+  const { preview, error, loading } = useFilePreview(item.file, overrides);
+  const editable = item.state === "staged";
+
+  const override = (patch: IngestOptions) => update(item.id, { ingest: { ...item.ingest, ...patch } });
+  const setColumnType = (column: string, type: ColumnDataType) =>
+    override({ column_types: { ...item.ingest?.column_types, [column]: type } });
+
+  const sheetPicker = excel && item.state === "staged" && (
+    <SheetPicker item={item} previewSheet={previewSheet} onPreviewSheet={setPreviewSheet} />
+  );
+
+  if (error) return <p className="text-sm text-destructive">Could not preview {item.path}: {error}</p>;
+  if (!preview) {
+    return (
+      <div className="space-y-3">
+        {sheetPicker}
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Reading {item.path}…
+        </div>
+      </div>
+    );
+  }
+
+  const { settings } = preview;
+  return (
+    <div className="space-y-3">
+      {sheetPicker}
+      {editable && <IngestTargetPicker item={item} fileColumns={preview.columns} />}
+      <div className="grid gap-3 md:grid-cols-4">
+        {preview.kind === "csv" && (
+          <>
+            <div className="grid gap-1">
+              <Label className="text-xs">Delimiter</Label>
+              <select
+                className="h-9 rounded-md border bg-background px-3 text-sm"
+                value={settings.delimiter}
+                disabled={!editable}
+                onChange={(e) => override({ delimiter: e.target.value })}
+              >
+                {DELIMITERS.map((d) => (
+                  <option key={d} value={d}>
+                    {DELIMITER_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Quote character</Label>
+              <select
+                className="h-9 rounded-md border bg-background px-3 text-sm"
+                value={settings.quote_char}
+                disabled={!editable}
+                onChange={(e) => override({ quote_char: e.target.value })}
+              >
+                {QUOTE_CHARS.map((q) => (
+                  <option key={q} value={q}>
+                    {q}
+                  </option>
+                ))}
+                <option value="">None</option>
+              </select>
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">Encoding</Label>
+              <select
+                className="h-9 rounded-md border bg-background px-3 text-sm"
+                value={settings.encoding}
+                disabled={!editable}
+                onChange={(e) => override({ encoding: e.target.value })}
+              >
+                {ENCODINGS.map((enc) => (
+                  <option key={enc} value={enc}>
+                    {enc}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+        <div className="flex items-center gap-2 pt-5">
+          <Switch
+            id={`header-${item.id}`}
+            checked={settings.header}
+            disabled={!editable}
+            onCheckedChange={(v) => override({ header: v })}
+          />
+          <Label htmlFor={`header-${item.id}`} className="text-sm">First row is header</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {preview.columns.map((c) => (
+          <div key={c} className="grid min-w-[140px] gap-1">
+            <span className="truncate text-xs text-muted-foreground" title={c}>
+              {c}
+            </span>
+            <select
+              className="h-8 rounded-md border bg-background px-2 text-xs"
+              value={preview.columnTypes[c]}
+              disabled={!editable}
+              onChange={(e) => setColumnType(c, e.target.value as ColumnDataType)}
+            >
+              {COLUMN_DATA_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="relative">
+        <DataGrid columns={preview.columns} rows={preview.rows} height={280} />
+        {loading && (
+          <div className="absolute inset-0 grid place-items-center bg-background/60">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Showing the first {preview.rows.length} rows, parsed in your browser.
+      </p>
+    </div>
+  );
+}
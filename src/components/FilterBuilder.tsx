@@ -0,0 +1,227 @@
+import { useMemo, useState, type DragEvent } from "react";
+import { ChevronDown, ChevronRight, GripVertical, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FilterValueEditor } from "@/components/FilterValueEditor";
+import { cn } from "@/lib/utils";
+import type { ColumnMeta } from "@/utils/api";
+import type { ColumnDataType } from "@/utils/columnTypes";
+import {
+  FILTER_OPS,
+  appendChild,
+  compileFilters,
+  emptyCondition,
+  emptyGroup,
+  initialValue,
+  moveNode,
+  removeNode,
+  serializeFilters,
+  updateNode,
+  type ConditionDraft,
+  type DraftNode,
+  type GroupDraft,
+} from "@/utils/filterTree";
+
+interface FilterBuilderProps {
+  root: GroupDraft;
+  onChange: (root: GroupDraft) => void;
+  columns: ColumnMeta[];
+  columnTypes?: Record<string, ColumnDataType | undefined>;
+  /** Table whose distinct values are suggested in value inputs. */
+  table?: string;
+}
+
+const DRAG_TYPE = "application/x-crunchy-filter";
+
+interface TreeActions {
+  root: GroupDraft;
+  table?: string;
+  columns: ColumnMeta[];
+  columnTypes: Record<string, ColumnDataType | undefined>;
+  patch: (id: string, patch: Partial<ConditionDraft> | Partial<GroupDraft>) => void;
+  remove: (id: string) => void;
+  add: (groupId: string, node: DraftNode) => void;
+  move: (id: string, groupId: string, index?: number) => void;
+}
+
+function countConditions(group: GroupDraft): number {
+  return group.children.reduce((n, c) => n + (c.kind === "group" ? countConditions(c) : 1), 0);
+}
+
+function readDragId(e: DragEvent) {
+  return e.dataTransfer.getData(DRAG_TYPE) || undefined;
+}
+
+/** Drop zone between rows; dropping inserts the dragged node at `index` of `groupId`. */
+function DropSlot({ groupId, index, actions }: { groupId: string; index?: number; actions: TreeActions }) {
+  const [over, setOver] = useState(false);
+  return (
+    <div
+      className={cn("h-1.5 rounded transition-colors", over && "bg-primary/40")}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        const id = readDragId(e);
+        if (id) actions.move(id, groupId, index);
+      }}
+    />
+  );
+}
+
+function DragHandle({ id }: { id: string }) {
+  return (
+    <span
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      className="flex h-9 cursor-grab items-center text-muted-foreground"
+      title="Drag to move"
+    >
+      <GripVertical className="h-4 w-4" />
+    </span>
+  );
+}
+
+function ConditionRow({ node, actions }: { node: ConditionDraft; actions: TreeActions }) {
+  const column = actions.columns.find((c) => c.name === node.column);
+  const { root, columnTypes } = actions;
+  // Every filter except this row, so suggestions narrow as the rest of the query does.
+  const contextFilters = useMemo(
+    () => serializeFilters(compileFilters(removeNode(root, node.id), columnTypes)),
+    [root, node.id, columnTypes]
+  );
+  return (
+    <div className="grid items-center gap-2 md:grid-cols-[auto_1fr_160px_1fr_40px]">
+      <DragHandle id={node.id} />
+      <select
+        className="h-9 rounded-md border bg-background px-3 text-sm"
+        value={node.column || ""}
+        onChange={(e) =>
+          actions.patch(node.id, { column: e.target.value, value: initialValue(node.op, columnTypes[e.target.value]) })
+        }
+      >
+        <option value="">Column…</option>
+        {actions.columns.map((c) => (
+          <option key={c.name} value={c.name}>
+            {c.data_type ? `${c.name} (${c.data_type})` : c.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className="h-9 rounded-md border bg-background px-3 text-sm"
+        value={node.op}
+        onChange={(e) => {
+          const op = e.target.value as ConditionDraft["op"];
+          actions.patch(node.id, { op, value: initialValue(op, columnTypes[node.column]) });
+        }}
+      >
+        {FILTER_OPS.map((op) => (
+          <option key={op} value={op}>
+            {op}
+          </option>
+        ))}
+      </select>
+      <FilterValueEditor
+        op={node.op}
+        column={column}
+        value={node.value}
+        onChange={(value) => actions.patch(node.id, { value })}
+        table={actions.table}
+        contextFilters={contextFilters}
+      />
+      <Button variant="ghost" size="icon" onClick={() => actions.remove(node.id)} title="Remove condition">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function GroupEditor({ group, isRoot, actions }: { group: GroupDraft; isRoot?: boolean; actions: TreeActions }) {
+  const Chevron = group.collapsed ? ChevronRight : ChevronDown;
+  return (
+    <div className={cn("space-y-1", !isRoot && "rounded-md border-l-2 border-primary/30 bg-muted/30 py-2 pl-3 pr-2")}>
+      <div className="flex flex-wrap items-center gap-2">
+        {!isRoot && <DragHandle id={group.id} />}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => actions.patch(group.id, { collapsed: !group.collapsed })}
+          title={group.collapsed ? "Expand group" : "Collapse group"}
+        >
+          <Chevron className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={group.not ? "default" : "outline"}
+          size="sm"
+          onClick={() => actions.patch(group.id, { not: !group.not })}
+          title="Negate this group"
+        >
+          NOT
+        </Button>
+        <select
+          className="h-9 rounded-md border bg-background px-3 text-sm"
+          value={group.logical}
+          onChange={(e) => actions.patch(group.id, { logical: e.target.value as GroupDraft["logical"] })}
+          title="Logical operator"
+        >
+          <option value="AND">AND</option>
+          <option value="OR">OR</option>
+        </select>
+        {group.collapsed && (
+          <span className="text-xs text-muted-foreground">{countConditions(group)} conditions</span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => actions.add(group.id, emptyCondition())}>
+            Add row
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => actions.add(group.id, emptyGroup())}>
+            Add group
+          </Button>
+          {!isRoot && (
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => actions.remove(group.id)} title="Remove group">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {!group.collapsed && (
+        <div>
+          {group.children.map((child, i) => (
+            <div key={child.id}>
+              <DropSlot groupId={group.id} index={i} actions={actions} />
+              {child.kind === "group" ? (
+                <GroupEditor group={child} actions={actions} />
+              ) : (
+                <ConditionRow node={child} actions={actions} />
+              )}
+            </div>
+          ))}
+          <DropSlot groupId={group.id} actions={actions} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Visual editor for a nested AND/OR filter tree with drag-and-drop reordering. */
+export function FilterBuilder({ root, onChange, columns, columnTypes = {}, table }: FilterBuilderProps) {
+  const actions: TreeActions = {
+    root,
+    table,
+    columns,
+    columnTypes,
+    patch: (id, patch) => onChange(updateNode(root, id, (n) => ({ ...n, ...patch }) as DraftNode)),
+    remove: (id) => onChange(removeNode(root, id)),
+    add: (groupId, node) => onChange(appendChild(root, groupId, node)),
+    move: (id, groupId, index) => onChange(moveNode(root, id, groupId, index)),
+  };
+  return <GroupEditor group={root} isRoot actions={actions} />;
+}
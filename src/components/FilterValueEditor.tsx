@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { format, parseISO, isValid } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { TagInput } from "@/components/TagInput";
+import { SuggestInput } from "@/components/SuggestInput";
+import { useDistinctValues } from "@/hooks/useDistinctValues";
+import { cn } from "@/lib/utils";
+import type { ColumnMeta, FilterOp, QueryBody } from "@/utils/api";
+import { isNumericType, type ColumnDataType } from "@/utils/columnTypes";
+import { valueShape, type DraftValue } from "@/utils/filterTree";
+
+interface FilterValueEditorProps {
+  op: FilterOp;
+  column?: ColumnMeta;
+  value?: DraftValue;
+  onChange: (value: DraftValue | undefined) => void;
+  /** Table and other active filters used to suggest distinct values. */
+  table?: string;
+  contextFilters?: Pick<QueryBody, "filters" | "logical_operator" | "not">;
+}
+
+function numberError(value: string, type?: ColumnDataType) {
+  if (!value.trim()) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return "Not a number";
+  if (type === "integer" && !Number.isInteger(n)) return "Whole number expected";
+  return undefined;
+}
+
+function DateInput({
+  value,
+  withTime,
+  placeholder,
+  onChange,
+}: {
+  value: string;
+  withTime: boolean;
+  placeholder?: string;
+  onChange: (v: string) => void;
+}) {
+  const parsed = value ? parseISO(value) : undefined;
+  const date = parsed && isValid(parsed) ? parsed : undefined;
+  const time = date && withTime ? format(date, "HH:mm") : "00:00";
+  const emit = (d: Date | undefined, t: string) => {
+    if (!d) return onChange("");
+    const day = format(d, "yyyy-MM-dd");
+    onChange(withTime ? `${day}T${t}` : day);
+  };
+  return (
+    <div className="flex gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className={cn("h-9 flex-1 justify-start font-normal", !date && "text-muted-foreground")}>
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {date ? format(date, "yyyy-MM-dd") : (placeholder ?? "Pick a date")}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar mode="single" selected={date} onSelect={(d) => emit(d, time)} initialFocus />
+        </PopoverContent>
+      </Popover>
+      {withTime && (
+        <Input type="time" className="w-28" value={time} disabled={!date} onChange={(e) => emit(date, e.target.value)} />
+      )}
+    </div>
+  );
+}
+
+/** Editor for one scalar value, chosen by the column's declared type. */
+function ScalarInput({
+  type,
+  value,
+  placeholder,
+  onChange,
+}: {
+  type?: ColumnDataType;
+  value: string;
+  placeholder?: string;
+  onChange: (v: string) => void;
+}) {
+  if (type === "date" || type === "datetime") {
+    return <DateInput value={value} withTime={type === "datetime"} placeholder={placeholder} onChange={onChange} />;
+  }
+  if (isNumericType(type)) {
+    const error = numberError(value, type);
+    return (
+      <Input
+        type="number"
+        inputMode="decimal"
+        step={type === "integer" ? 1 : "any"}
+        placeholder={placeholder}
+        value={value}
+        aria-invalid={!!error}
+        title={error}
+        className={cn(error && "border-destructive")}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+  return <Input placeholder={placeholder} value={value} onChange={(e) => onChange(e.target.value)} />;
+}
+
+/** Value editor for a filter row, matching the operator's value shape and the column type. */
+export function FilterValueEditor({ op, column, value, onChange, table, contextFilters }: FilterValueEditorProps) {
+  const type = column?.data_type;
+  const shape = valueShape(op);
+  // Suggestions help with text values; numbers, dates and booleans have their own editors.
+  const suggestable = shape === "list" || (shape === "scalar" && (type === undefined || type === "string"));
+  const [focused, setFocused] = useState(false);
+  const [search, setSearch] = useState("");
+  const distinct = useDistinctValues({
+    table,
+    column: column?.name,
+    filters: contextFilters,
+    search: shape === "scalar" && typeof value === "string" ? value : search,
+    enabled: suggestable && focused,
+  });
+  // Fall back to the column's sample values when the backend cannot list distinct values.
+  const suggestions = distinct.error
+    ? (column?.sample_values ?? []).filter((v) => v !== null && v !== undefined).map((v) => ({ value: String(v) }))
+    : distinct.suggestions;
+
+  if (shape === "none") {
+    return <div className="px-2 py-2 text-xs text-muted-foreground">No value</div>;
+  }
+
+  if (shape === "range") {
+    const [low = "", high = ""] = Array.isArray(value) ? value : [];
+    return (
+      <div className="flex gap-2">
+        <ScalarInput type={type} placeholder="Low" value={low} onChange={(v) => onChange([v, high])} />
+        <ScalarInput type={type} placeholder="High" value={high} onChange={(v) => onChange([low, v])} />
+      </div>
+    );
+  }
+
+  if (shape === "list") {
+    return (
+      <TagInput
+        values={Array.isArray(value) ? value : []}
+        onChange={onChange}
+        suggestions={suggestions}
+        suggestionsLoading={distinct.loading}
+        onInputChange={setSearch}
+        onFocus={() => setFocused(true)}
+        placeholder="Type a value, Enter to add"
+      />
+    );
+  }
+
+  if (type === "boolean") {
+    const checked = value === true;
+    return (
+      <label className="flex h-9 items-center gap-2 px-2 text-sm">
+        <Switch checked={checked} onCheckedChange={(v) => onChange(v)} />
+        {value === undefined ? <span className="text-muted-foreground">unset</span> : String(checked)}
+      </label>
+    );
+  }
+
+  if (suggestable) {
+    return (
+      <SuggestInput
+        placeholder="Value"
+        value={typeof value === "string" ? value : ""}
+        onChange={onChange}
+        suggestions={suggestions}
+        suggestionsLoading={distinct.loading}
+        onFocus={() => setFocused(true)}
+      />
+    );
+  }
+
+  return <ScalarInput type={type} placeholder="Value" value={typeof value === "string" ? value : ""} onChange={onChange} />;
+}
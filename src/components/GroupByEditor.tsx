@@ -0,0 +1,146 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Aggregate, AggregateFn, ColumnMeta, GroupKey, TimeBucket } from "@/utils/api";
+import { AGGREGATE_FNS, TIME_BUCKETS, aggregateFits, withAliases, withGroupAliases } from "@/utils/aggregates";
+import { isTemporalType } from "@/utils/columnTypes";
+
+interface GroupByEditorProps {
+  groupBy: GroupKey[];
+  aggregates: Aggregate[];
+  onChange: (groupBy: GroupKey[], aggregates: Aggregate[]) => void;
+  columns: ColumnMeta[];
+}
+
+const selectClass = "h-9 rounded-md border bg-background px-2 text-sm";
+
+/** Group keys (with time buckets for date columns) and the aggregates computed per group. */
+export function GroupByEditor({ groupBy, aggregates, onChange, columns }: GroupByEditorProps) {
+  const typeOf = (column?: string) => columns.find((c) => c.name === column)?.data_type;
+  const setKeys = (keys: GroupKey[]) => onChange(withGroupAliases(keys), aggregates);
+  const setAggs = (aggs: Omit<Aggregate, "alias">[]) => onChange(groupBy, withAliases(aggs));
+  const patchKey = (i: number, p: Partial<GroupKey>) => setKeys(groupBy.map((k, j) => (j === i ? { ...k, ...p } : k)));
+  const patchAgg = (i: number, p: Partial<Aggregate>) => setAggs(aggregates.map((a, j) => (j === i ? { ...a, ...p } : a)));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2">
+        <Label>Group by</Label>
+        {groupBy.map((k, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <select
+              className={`${selectClass} min-w-0 flex-1`}
+              value={k.column}
+              onChange={(e) => patchKey(i, { column: e.target.value, bucket: undefined })}
+            >
+              {columns.map((c) => (
+                <option key={c.name} value={c.name}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            {isTemporalType(typeOf(k.column)) && (
+              <select
+                className={`${selectClass} w-28`}
+                value={k.bucket ?? ""}
+                onChange={(e) => patchKey(i, { bucket: (e.target.value || undefined) as TimeBucket | undefined })}
+                title="Time bucket"
+              >
+                <option value="">Exact</option>
+                {TIME_BUCKETS.map((b) => (
+                  <option key={b} value={b}>
+                    By {b}
+                  </option>
+                ))}
+              </select>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setKeys(groupBy.filter((_, j) => j !== i))}
+              title="Remove"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={!columns.length}
+          onClick={() => setKeys([...groupBy, { column: columns[0].name }])}
+        >
+          <Plus className="mr-1 h-4 w-4" /> Add group key
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Aggregates</Label>
+        {aggregates.map((a, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <select
+              className={`${selectClass} w-36`}
+              value={a.fn}
+              onChange={(e) => {
+                const fn = e.target.value as AggregateFn;
+                patchAgg(i, {
+                  fn,
+                  // A column the new function cannot take is no longer offered, so it is cleared too.
+                  column: aggregateFits(fn, typeOf(a.column)) ? a.column : undefined,
+                  percentile: fn === "percentile" ? (a.percentile ?? 50) : undefined,
+                });
+              }}
+            >
+              {AGGREGATE_FNS.map((f) => (
+                <option key={f.fn} value={f.fn}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            {a.fn === "percentile" && (
+              <Input
+                className="h-9 w-16"
+                type="number"
+                min={0}
+                max={100}
+                value={a.percentile ?? ""}
+                onChange={(e) => patchAgg(i, { percentile: e.target.value === "" ? undefined : Number(e.target.value) })}
+                title="Percentile (0–100)"
+              />
+            )}
+            <select
+              className={`${selectClass} min-w-0 flex-1`}
+              value={a.column ?? ""}
+              onChange={(e) => patchAgg(i, { column: e.target.value || undefined })}
+            >
+              <option value="" disabled={a.fn !== "count"}>
+                {a.fn === "count" ? "All rows" : "Column…"}
+              </option>
+              {columns
+                .filter((c) => aggregateFits(a.fn, c.data_type))
+                .map((c) => (
+                  <option key={c.name} value={c.name}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setAggs(aggregates.filter((_, j) => j !== i))}
+              title="Remove"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="secondary" size="sm" onClick={() => setAggs([...aggregates, { fn: "count" }])}>
+          <Plus className="mr-1 h-4 w-4" /> Add aggregate
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useConfigStore } from "@/store/config";
+import { useUploadQueueStore, type QueueItem } from "@/store/uploadQueue";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import type { IngestMode, IngestOptions } from "@/utils/api";
+import { diffColumns, isCompatible } from "@/utils/schemaCompat";
+
+interface IngestTargetPickerProps {
+  item: QueueItem;
+  /** Column names of the file as parsed by the preview. */
+  fileColumns: string[];
+}
+
+const MODE_LABELS: Record<Exclude<IngestMode, "create">, string> = {
+  append: "Append rows",
+  replace: "Replace contents",
+  upsert: "Upsert on key columns",
+};
+
+/** Chooses whether a staged file creates a new table or writes into an existing one. */
+export function IngestTargetPicker({ item, fileColumns }: IngestTargetPickerProps) {
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const update = useUploadQueueStore((s) => s.update);
+  const editable = item.state === "staged";
+  const mode = item.ingest?.mode ?? "create";
+  const target = mode === "create" ? undefined : item.ingest?.table_name;
+  const keyColumns = item.ingest?.key_columns ?? [];
+
+  const { data: tables } = useQuery({
+    queryKey: ["tables", apiBaseUrl, apiKey],
+    queryFn: ({ signal }) => client.listTables({ signal }),
+    enabled: !!apiBaseUrl,
+  });
+
+  const { data: cols } = useQuery({
+    queryKey: ["columns", apiBaseUrl, apiKey, target],
+    queryFn: ({ signal }) => client.getColumns(target!, { signal }),
+    enabled: !!target,
+  });
+
+  const override = (patch: IngestOptions) => update(item.id, { ingest: { ...item.ingest, ...patch } });
+  const tableColumns = cols?.columns.map((c) => c.name);
+  const diff = tableColumns ? diffColumns(fileColumns, tableColumns) : undefined;
+  const nameTaken = mode === "create" && !!item.ingest?.table_name && tables?.tables?.includes(item.ingest.table_name);
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="grid gap-1">
+          <Label className="text-xs">Target table</Label>
+          <select
+            className="h-9 rounded-md border bg-background px-3 text-sm"
+            value={target ?? ""}
+            disabled={!editable}
+            onChange={(e) =>
+              override(
+                e.target.value
+                  ? { table_name: e.target.value, mode: mode === "create" ? "append" : mode, key_columns: undefined }
+                  : { table_name: undefined, mode: "create", key_columns: undefined }
+              )
+            }
+          >
+            <option value="">Create new table</option>
+            {tables?.tables?.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </div>
+        {mode === "create" ? (
+          !item.sheets?.length && (
+            <div className="grid gap-1">
+              <Label className="text-xs">New table name</Label>
+              <Input
+                className="h-9"
+                placeholder="Derived from file name"
+                value={item.ingest?.table_name ?? ""}
+                disabled={!editable}
+                onChange={(e) => override({ table_name: e.target.value || undefined })}
+              />
+            </div>
+          )
+        ) : (
+          <div className="grid gap-1">
+            <Label className="text-xs">Mode</Label>
+            <select
+              className="h-9 rounded-md border bg-background px-3 text-sm"
+              value={mode}
+              disabled={!editable}
+              onChange={(e) => override({ mode: e.target.value as IngestMode })}
+            >
+              {Object.entries(MODE_LABELS).map(([m, label]) => (
+                <option key={m} value={m}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {nameTaken && (
+        <p className="text-xs text-amber-600">
+          A table named {item.ingest?.table_name} already exists; pick it as the target to append or replace instead.
+        </p>
+      )}
+
+      {mode === "upsert" && tableColumns && (
+        <div className="grid gap-1">
+          <Label className="text-xs">Key columns</Label>
+          <div className="flex flex-wrap gap-2">
+            {tableColumns
+              .filter((c) => fileColumns.includes(c))
+              .map((c) => {
+                const on = keyColumns.includes(c);
+                return (
+                  <button
+                    key={c}
+                    disabled={!editable}
+                    className={`rounded-md border px-2 py-1 text-xs hover:bg-muted ${on ? "bg-muted font-medium" : ""}`}
+                    onClick={() =>
+                      override({ key_columns: on ? keyColumns.filter((k) => k !== c) : [...keyColumns, c] })
+                    }
+                  >
+                    {c}
+                  </button>
+                );
+              })}
+          </div>
+        </div>
+      )}
+
+      {diff &&
+        (isCompatible(diff) ? (
+          <p className="text-xs text-muted-foreground">Columns match {target}.</p>
+        ) : (
+          <div className="space-y-1 text-xs">
+            <p className="font-medium text-amber-600">Columns differ from {target}:</p>
+            {diff.missing.length > 0 && <p>Missing from file: {diff.missing.join(", ")}</p>}
+            {diff.extra.length > 0 && <p>Not in table: {diff.extra.join(", ")}</p>}
+            {diff.renamed.map((r) => (
+              <p key={r.from}>
+                Possibly renamed: {r.from} → {r.to}
+              </p>
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useState } from "react";
-import { Settings, Upload } from "lucide-react";
+import { History, LayoutDashboard, Settings, Upload } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useConfigStore } from "@/store/config";
 import { useQuery } from "@tanstack/react-query";
-import { listTables } from "@/utils/api";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
 
 interface NavbarProps {
   selectedTable?: string;
@@ -14,12 +16,14 @@ interface NavbarProps {
 }
 
 export function Navbar({ selectedTable, onSelectTable }: NavbarProps) {
-  const { apiBaseUrl, apiKey, setApiBaseUrl, setApiKey } = useConfigStore();
+  const { apiBaseUrl, apiKey, setApiBaseUrl, setApiKey, syncSavedQueries, setSyncSavedQueries } = useConfigStore();
+  const client = useCrunchyClient();
+  const navigate = useNavigate();
   const [open, setOpen] = useState(false);
 
   const { data: tables } = useQuery({
     queryKey: ["tables", apiBaseUrl, apiKey],
-    queryFn: () => listTables(apiBaseUrl, apiKey),
+    queryFn: ({ signal }) => client.listTables({ signal }),
     enabled: !!apiBaseUrl,
   });
 
@@ -27,8 +31,10 @@ export function Navbar({ selectedTable, onSelectTable }: NavbarProps) {
     <header className="sticky top-0 z-40 w-full border-b bg-background/80 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container mx-auto flex h-14 items-center justify-between">
         <div className="flex items-center gap-3">
-          <div className="h-8 w-8 rounded-md" style={{ background: "var(--gradient-primary)" }} />
-          <span className="text-lg font-semibold">Crunchy Analytics</span>
+          <Link to="/" className="flex items-center gap-3">
+            <div className="h-8 w-8 rounded-md" style={{ background: "var(--gradient-primary)" }} />
+            <span className="text-lg font-semibold">Crunchy Analytics</span>
+          </Link>
         </div>
 
         <div className="flex items-center gap-3">
@@ -76,11 +82,34 @@ export function Navbar({ selectedTable, onSelectTable }: NavbarProps) {
                     onChange={(e) => setApiKey(e.target.value)}
                   />
                 </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="sync-saved-queries" checked={syncSavedQueries} onCheckedChange={setSyncSavedQueries} />
+                  <Label htmlFor="sync-saved-queries">Share saved queries through the backend</Label>
+                </div>
               </div>
             </DialogContent>
           </Dialog>
 
-          <Button size="sm" onClick={() => document.getElementById("upload-panel")?.scrollIntoView({ behavior: "smooth" })}>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/dashboards">
+              <LayoutDashboard className="mr-2 h-4 w-4" /> Dashboards
+            </Link>
+          </Button>
+
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/jobs">
+              <History className="mr-2 h-4 w-4" /> Jobs
+            </Link>
+          </Button>
+
+          <Button
+            size="sm"
+            onClick={() => {
+              const panel = document.getElementById("upload-panel");
+              if (panel) panel.scrollIntoView({ behavior: "smooth" });
+              else navigate("/");
+            }}
+          >
             <Upload className="mr-2 h-4 w-4" /> Upload
           </Button>
         </div>
@@ -0,0 +1,144 @@
+import { useState, type MouseEvent } from "react";
+import { ChevronFirst, ChevronLast } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+
+interface PaginationBarProps {
+  /** Zero-based index of the page on screen. */
+  page: number;
+  /** Position of the first row on screen, which need not be a page boundary; keyset pages are full, so it is derived. */
+  offset?: number;
+  pageSize: number;
+  /** Rows on the current page. */
+  rowCount: number;
+  /** Total matching rows, when the backend reports it. */
+  total?: number;
+  /** Keyset mode can only step to neighbouring pages; `hasNext` says whether there is one. */
+  keyset?: boolean;
+  hasNext?: boolean;
+  onPageChange: (page: number) => void;
+}
+
+// Page links around the current page, with ellipses for the gaps: 1 … 4 5 6 … 20
+function pageWindow(page: number, pageCount: number): (number | "gap")[] {
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1].filter((p) => p >= 0 && p < pageCount));
+  const sorted = [...pages].sort((a, b) => a - b);
+  const out: (number | "gap")[] = [];
+  sorted.forEach((p, i) => {
+    if (i > 0 && p - sorted[i - 1] > 1) out.push("gap");
+    out.push(p);
+  });
+  return out;
+}
+
+/** "Rows X–Y of Z" with first/previous/next/last, page links and jump-to-page. */
+export function PaginationBar({
+  page,
+  offset,
+  pageSize,
+  rowCount,
+  total,
+  keyset,
+  hasNext,
+  onPageChange,
+}: PaginationBarProps) {
+  const [jump, setJump] = useState("");
+  const first = offset ?? page * pageSize;
+  const pageCount = total !== undefined ? Math.max(1, Math.ceil(total / pageSize)) : undefined;
+  const canPrev = page > 0;
+  const canNext = keyset ? !!hasNext : pageCount !== undefined ? page < pageCount - 1 : rowCount === pageSize;
+  const canLast = !keyset && pageCount !== undefined && page < pageCount - 1;
+
+  const go = (target: number, enabled: boolean) => (e: MouseEvent) => {
+    e.preventDefault();
+    if (enabled) onPageChange(target);
+  };
+  const disabledClass = (enabled: boolean) => cn(!enabled && "pointer-events-none opacity-50");
+
+  const onJump = () => {
+    const n = Number(jump);
+    if (!Number.isInteger(n) || !pageCount) return;
+    onPageChange(Math.min(pageCount, Math.max(1, n)) - 1);
+    setJump("");
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+      <span className="text-xs text-muted-foreground">
+        {rowCount
+          ? `Rows ${(first + 1).toLocaleString()}–${(first + rowCount).toLocaleString()}`
+          : "No rows"}
+        {total !== undefined && ` of ${total.toLocaleString()}`}
+      </span>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationLink href="#" aria-label="Go to first page" onClick={go(0, canPrev)} className={disabledClass(canPrev)}>
+              <ChevronFirst className="h-4 w-4" />
+            </PaginationLink>
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationPrevious href="#" onClick={go(page - 1, canPrev)} className={disabledClass(canPrev)} />
+          </PaginationItem>
+          {!keyset &&
+            pageCount !== undefined &&
+            pageWindow(page, pageCount).map((p, i) => (
+              <PaginationItem key={p === "gap" ? `gap-${i}` : p}>
+                {p === "gap" ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={p === page} onClick={go(p, p !== page)}>
+                    {p + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+          {keyset && (
+            <PaginationItem>
+              <span className="px-2 text-sm">Page {page + 1}</span>
+            </PaginationItem>
+          )}
+          <PaginationItem>
+            <PaginationNext href="#" onClick={go(page + 1, canNext)} className={disabledClass(canNext)} />
+          </PaginationItem>
+          {!keyset && (
+            <PaginationItem>
+              <PaginationLink
+                href="#"
+                aria-label="Go to last page"
+                onClick={go((pageCount ?? 1) - 1, canLast)}
+                className={disabledClass(canLast)}
+              >
+                <ChevronLast className="h-4 w-4" />
+              </PaginationLink>
+            </PaginationItem>
+          )}
+        </PaginationContent>
+      </Pagination>
+      {!keyset && pageCount !== undefined && pageCount > 1 && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          Go to page
+          <Input
+            className="h-8 w-20"
+            type="number"
+            min={1}
+            max={pageCount}
+            value={jump}
+            onChange={(e) => setJump(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && onJump()}
+          />
+          of {pageCount.toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { SuggestionList } from "@/components/SuggestionList";
+import { cn } from "@/lib/utils";
+import type { ColumnDataType } from "@/utils/columnTypes";
+import { formatColumn, parseQuery, QuerySyntaxError, type ParsedQuery } from "@/utils/queryLang";
+
+interface QueryBarProps {
+  /** The current query as text; replaces the input whenever it changes. */
+  value: string;
+  columns: string[];
+  /** Number literals are read as their column's type. */
+  columnTypes?: Record<string, ColumnDataType | undefined>;
+  onSubmit: (query: ParsedQuery) => void;
+}
+
+/** The column name being typed at the caret, unless the caret is inside a string. */
+function wordAtCaret(text: string, caret: number) {
+  const before = text.slice(0, caret);
+  if ((before.match(/["']/g)?.length ?? 0) % 2 === 1) return null;
+  const m = /[A-Za-z_][A-Za-z0-9_.]*$/.exec(before);
+  return m ? { word: m[0], start: caret - m[0].length } : null;
+}
+
+/**
+ * Free-text query input, e.g. `revenue > 1000 and country in ("DE") limit 50`.
+ * Syntax errors are shown as you type; Enter applies the query and Escape
+ * reverts to the current one. Column names autocomplete (Tab takes the first).
+ */
+export function QueryBar({ value, columns, columnTypes, onSubmit }: QueryBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState(value);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  // Edits made in the visual builder replace whatever was typed here.
+  useEffect(() => setText(value), [value]);
+
+  const dirty = text !== value;
+  const error = useMemo(() => {
+    if (!dirty) return null;
+    try {
+      parseQuery(text, columns, columnTypes);
+      return null;
+    } catch (e) {
+      return e instanceof QuerySyntaxError ? e : null;
+    }
+  }, [dirty, text, columns, columnTypes]);
+
+  const current = focused ? wordAtCaret(text, caret) : null;
+  const matches = current
+    ? columns
+        .filter((c) => c.toLowerCase().startsWith(current.word.toLowerCase()) && c !== current.word)
+        .slice(0, 20)
+        .map((c) => ({ value: c }))
+    : [];
+
+  const complete = (column: string) => {
+    if (!current) return;
+    const inserted = formatColumn(column);
+    const next = text.slice(0, current.start) + inserted + text.slice(caret);
+    const at = current.start + inserted.length;
+    setText(next);
+    setCaret(at);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(at, at));
+  };
+
+  const submit = () => {
+    try {
+      onSubmit(parseQuery(text, columns, columnTypes));
+      // Show the query as the builder understood it.
+      setText(value);
+    } catch {
+      // The error is already shown under the input.
+    }
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Tab" && matches.length) {
+      e.preventDefault();
+      complete(matches[0].value);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      submit();
+    } else if (e.key === "Escape") {
+      setText(value);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Input
+          ref={inputRef}
+          className={cn("font-mono", error && "border-destructive focus-visible:ring-destructive")}
+          placeholder='revenue > 1000 and country in ("DE", "AT") order by date desc limit 500'
+          value={text}
+          spellCheck={false}
+          onChange={(e) => {
+            setText(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onKeyDown={onKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+        />
+        {matches.length > 0 && <SuggestionList suggestions={matches} onPick={complete} />}
+      </div>
+      {error ? (
+        <p className="text-xs text-destructive">
+          {error.message} (col {error.start + 1}
+          {error.end > error.start + 1 ? `–${error.end}` : ""})
+        </p>
+      ) : (
+        dirty && <p className="text-xs text-muted-foreground">Press Enter to apply, Escape to revert.</p>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,70 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useConfigStore } from "@/store/config";
-import { getColumns, listTables, queryData, streamData, type FilterOp, type QueryBody } from "@/utils/api";
-import { useQuery } from "@tanstack/react-query";
+import {
+  errorMessage,
+  isAbortError,
+  type Aggregate,
+  type GroupKey,
+  type QueryBody,
+  type QueryResult,
+  type SortKey,
+} from "@/utils/api";
+import {
+  aggregatedColumnLabels,
+  aggregatedColumnTypes,
+  aggregatedColumns,
+  isCompleteAggregate,
+  withAliases,
+  withGroupAliases,
+} from "@/utils/aggregates";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { useInfiniteRows } from "@/hooks/useInfiniteRows";
+import type { ColumnDataType } from "@/utils/columnTypes";
+import { compileFilters, draftFromFilters, serializeFilters, type GroupDraft } from "@/utils/filterTree";
+import { formatQuery, type ParsedQuery } from "@/utils/queryLang";
+import {
+  DEFAULT_LIMIT,
+  compactQueryState,
+  decodeQueryState,
+  encodeQueryState,
+  tablePath,
+  type QueryState,
+} from "@/utils/queryState";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
-import { Loader2, Download } from "lucide-react";
+import { Loader2, Download, X, BookMarked, ScanSearch } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { DataGrid } from "@/components/DataGrid";
+import { FilterBuilder } from "@/components/FilterBuilder";
+import { SortEditor } from "@/components/SortEditor";
+import { PaginationBar } from "@/components/PaginationBar";
+import { GroupByEditor } from "@/components/GroupByEditor";
+import { QueryBar } from "@/components/QueryBar";
+import { SavedQueriesPanel } from "@/components/SavedQueriesPanel";
+import { ChartView } from "@/components/ChartView";
+import { ColumnProfilePanel } from "@/components/ColumnProfilePanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { exportFormatInfo, type ExportOptions } from "@/utils/exportFormats";
+import { convertStream } from "@/utils/exportStream";
+import { openExportSink, type ExportSink } from "@/utils/exportSink";
+import { ProgressMeter, describeProgress, type ExportProgress } from "@/utils/exportProgress";
+import { ExportDialog } from "@/components/ExportDialog";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 interface QueryViewProps {
   selectedTable?: string;
   onSelectTable?: (t: string) => void;
 }
 
-const OPS: FilterOp[] = [
-  "eq",
-  "neq",
-  "lt",
-  "lte",
-  "gt",
-  "gte",
-  "like",
-  "in",
-  "between",
-  "in_range",
-  "is_null",
-  "is_not_null",
-];
-
-const NO_VALUE_OPS = new Set<FilterOp>(["is_null", "is_not_null"]);
-const ARRAY_VALUE_OPS = new Set<FilterOp>(["in", "in_range"]);
+
+const URL_UPDATE_DELAY_MS = 400;
+const EXPORT_PROGRESS_INTERVAL_MS = 250;
 
 function useDebouncedCallback<T extends (...args: any[]) => void>(fn: T, delay = 300) {
   const ref = useRef<number | undefined>();
@@ -44,127 +76,310 @@ function useDebouncedCallback<T extends (...args: any[]) => void>(fn: T, delay =
 
 export function QueryView({ selectedTable, onSelectTable }: QueryViewProps) {
   const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [savedOpen, setSavedOpen] = useState(false);
+  const [profileOpen, setProfileOpen] = useState(false);
 
   const { data: tables } = useQuery({
     queryKey: ["tables", apiBaseUrl, apiKey],
-    queryFn: () => listTables(apiBaseUrl, apiKey),
+    queryFn: ({ signal }) => client.listTables({ signal }),
     enabled: !!apiBaseUrl,
   });
 
-  const [fields, setFields] = useState<string[]>([]);
-  const [filters, setFilters] = useState<{ column?: string; op: FilterOp; value?: string }[]>([]);
-  const [logical, setLogical] = useState<"AND" | "OR">("AND");
-  const [orderBy, setOrderBy] = useState<{ column?: string; direction: "asc" | "desc" }>({ direction: "desc" });
-  const [limit, setLimit] = useState(100);
-  const [offset, setOffset] = useState(0);
+  // The query lives in the `q` URL parameter so links reproduce the view and back/forward step through queries.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const encoded = searchParams.get("q") ?? "";
+  const [initial] = useState(() => decodeQueryState(encoded));
+
+  const [fields, setFields] = useState<string[]>(initial.fields ?? []);
+  const [groupBy, setGroupBy] = useState<GroupKey[]>(() => withGroupAliases(initial.group_by ?? []));
+  const [aggregates, setAggregates] = useState<Aggregate[]>(() => withAliases(initial.aggregates ?? []));
+  const [filterRoot, setFilterRoot] = useState<GroupDraft>(() =>
+    draftFromFilters(initial.filters ?? [], initial.logical_operator, initial.not)
+  );
+  const [orderBy, setOrderBy] = useState<SortKey[]>(initial.order_by ?? []);
+  const [limit, setLimit] = useState(initial.limit ?? DEFAULT_LIMIT);
+  const [offset, setOffset] = useState(initial.offset ?? 0);
+  const [pagination, setPagination] = useState<"offset" | "keyset">(initial.pagination ?? "offset");
+  // Keyset mode: the cursor of each page after the first, so Previous can step back.
+  const [cursors, setCursors] = useState<string[]>([]);
+  // Counts queries loaded from the URL, so the page reset below runs even when one changes nothing.
+  const [loads, setLoads] = useState(0);
+  // Infinite scroll replaces the pager: the grid fetches `limit`-sized pages as it scrolls.
+  const [infinite, setInfinite] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
 
   const { data: cols } = useQuery({
     queryKey: ["columns", apiBaseUrl, apiKey, selectedTable],
-    queryFn: () => getColumns(apiBaseUrl, apiKey, selectedTable!),
+    queryFn: ({ signal }) => client.getColumns(selectedTable!, { signal }),
     enabled: !!selectedTable,
   });
 
-useEffect(() => {
-    setFields([]);
-    setFilters([]);
-    setOffset(0);
-  }, [selectedTable]);
-
-  const coerceType = (v: string) => {
-    const trimmed = v.trim();
-    if (trimmed === "true") return true;
-    if (trimmed === "false") return false;
-    const n = Number(trimmed);
-    return Number.isNaN(n) ? trimmed : n;
+  const applyState = (s: QueryState) => {
+    // A loaded query brings its own page.
+    pageResetKeyRef.current = null;
+    setLoads((n) => n + 1);
+    setFields(s.fields ?? []);
+    setGroupBy(withGroupAliases(s.group_by ?? []));
+    setAggregates(withAliases(s.aggregates ?? []));
+    setFilterRoot(draftFromFilters(s.filters ?? [], s.logical_operator, s.not));
+    setOrderBy(s.order_by ?? []);
+    setLimit(s.limit ?? DEFAULT_LIMIT);
+    setOffset(s.offset ?? 0);
+    setPagination(s.pagination ?? "offset");
   };
 
+  const columnMeta = useMemo(() => cols?.columns ?? [], [cols]);
+  const columnNames = useMemo(() => columnMeta.map((c) => c.name), [columnMeta]);
+  const columnTypes = useMemo(
+    () => Object.fromEntries(columnMeta.map((c) => [c.name, c.data_type])) as Record<string, ColumnDataType | undefined>,
+    [columnMeta]
+  );
+
+  const filterBody = useMemo(() => serializeFilters(compileFilters(filterRoot, columnTypes)), [filterRoot, columnTypes]);
+
+  // What each result row holds: the selected fields, or group keys and aggregates.
+  const projection = useMemo((): Pick<QueryBody, "fields" | "group_by" | "aggregates"> => {
+    const aggs = aggregates.filter(isCompleteAggregate);
+    if (groupBy.length || aggs.length) {
+      return { group_by: groupBy.length ? groupBy : undefined, aggregates: aggs.length ? aggs : undefined };
+    }
+    return { fields: fields.length ? fields : undefined };
+  }, [fields, groupBy, aggregates]);
+  const aggregated = !projection.fields && !!(projection.group_by || projection.aggregates);
+
+  // Pages belong to one query: any other change starts again from the first page. Keyed by value so
+  // re-created objects don't count; a null key marks a loaded query, which keeps its offset. Declared
+  // before the URL loading below so that it sees the loaded state on the next render.
+  const pageResetKey = JSON.stringify([selectedTable, filterBody, orderBy, limit, pagination, projection]);
+  const pageResetKeyRef = useRef<string | null>(pageResetKey);
+  useEffect(() => {
+    if (pageResetKeyRef.current === pageResetKey) return;
+    const loaded = pageResetKeyRef.current === null;
+    pageResetKeyRef.current = pageResetKey;
+    setCursors([]);
+    if (!loaded) setOffset(0);
+  }, [pageResetKey, loads]);
+
+  // What this component last wrote to the URL; anything else came from navigation and is loaded.
+  const writtenRef = useRef(encoded);
+  const tableRef = useRef(selectedTable);
+  const replaceNextRef = useRef(false);
+  useEffect(() => {
+    if (encoded === writtenRef.current && selectedTable === tableRef.current) return;
+    writtenRef.current = encoded;
+    tableRef.current = selectedTable;
+    // Loading may normalize the query; record that without adding a history entry.
+    replaceNextRef.current = true;
+    applyState(decodeQueryState(encoded));
+  }, [encoded, selectedTable]);
+
   const queryBody: QueryBody | undefined = useMemo(() => {
     if (!selectedTable) return undefined;
-    const processed = filters
-      .map((f) => {
-        if (!f.column) return null;
-        const op = f.op;
-        if (NO_VALUE_OPS.has(op)) {
-          return { column: f.column, op } as any;
-        }
-        const raw = (f.value ?? "").toString();
-        if (op === "between") {
-          const parts = raw.split(",").map((s) => s.trim()).filter(Boolean);
-          if (parts.length !== 2) return null;
-          return { column: f.column, op, value: parts.map(coerceType) } as any;
-        }
-        if (ARRAY_VALUE_OPS.has(op)) {
-          const arr = raw
-            .split(",")
-            .map((s) => s.trim())
-            .filter((s) => s.length > 0)
-            .map(coerceType);
-          if (!arr.length) return null;
-          return { column: f.column, op, value: arr } as any;
-        }
-        if (!raw) return null;
-        return { column: f.column, op, value: coerceType(raw) } as any;
-      })
-      .filter(Boolean) as any;
-    return {
-      filters: processed,
-      logical_operator: logical,
-      order_by: orderBy.column ? (orderBy as any) : undefined,
+    const body: QueryBody = {
+      ...filterBody,
+      order_by: orderBy.length ? orderBy : undefined,
       limit,
       offset,
-      fields: fields.length ? fields : undefined,
+      ...projection,
     };
-  }, [selectedTable, filters, logical, orderBy, limit, offset, fields]);
+    if (pagination === "keyset") {
+      body.offset = 0;
+      body.pagination = "keyset";
+      body.cursor = cursors[cursors.length - 1];
+    }
+    return body;
+  }, [selectedTable, filterBody, orderBy, limit, offset, projection, pagination, cursors]);
+
+  // The whole result without a page window: what infinite scroll pages through and what an export streams.
+  const scrollBody = useMemo(
+    () => ({ ...filterBody, order_by: orderBy.length ? orderBy : undefined, ...projection }),
+    [filterBody, orderBy, projection]
+  );
+
+  const queryText = useMemo(
+    () =>
+      formatQuery({
+        ...filterBody,
+        order_by: orderBy,
+        limit,
+        offset,
+      }),
+    [filterBody, orderBy, limit, offset]
+  );
+
+  // Text queries replace filters, sort and paging; fields and grouping are kept, other clauses left out reset.
+  const applyText = (q: ParsedQuery) =>
+    applyState({
+      filters: q.filters?.filters,
+      logical_operator: q.filters?.logical_operator,
+      not: q.filters?.not,
+      order_by: q.order_by,
+      limit: q.limit,
+      offset: q.offset,
+      fields,
+      group_by: groupBy,
+      aggregates,
+      pagination,
+    });
+
+  const stateParam = useMemo(
+    () =>
+      encodeQueryState({
+        ...filterBody,
+        order_by: orderBy,
+        limit,
+        offset,
+        fields,
+        group_by: groupBy,
+        aggregates,
+        pagination,
+      }),
+    [filterBody, orderBy, limit, offset, fields, groupBy, aggregates, pagination]
+  );
 
-  const { data: result, isFetching, refetch } = useQuery<{ rows: any[]; total: number }>({
-    queryKey: ["query", apiBaseUrl, apiKey, selectedTable, queryBody],
-    queryFn: () => queryData(apiBaseUrl, apiKey, selectedTable!, queryBody!),
-    enabled: !!selectedTable && !!queryBody,
+  // Debounced so typing a filter value adds one history entry rather than one per keystroke.
+  useEffect(() => {
+    if (stateParam === encoded) replaceNextRef.current = false;
+    if (!selectedTable || stateParam === encoded) return;
+    const t = window.setTimeout(() => {
+      writtenRef.current = stateParam;
+      const replace = replaceNextRef.current;
+      replaceNextRef.current = false;
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          if (stateParam) next.set("q", stateParam);
+          else next.delete("q");
+          return next;
+        },
+        { replace }
+      );
+    }, URL_UPDATE_DELAY_MS);
+    return () => window.clearTimeout(t);
+  }, [stateParam, encoded, selectedTable, setSearchParams]);
+
+  const queryKey = ["query", apiBaseUrl, apiKey, selectedTable, queryBody];
+  // React Query aborts the signal when the key changes, so superseded queries are cancelled on the wire.
+  const { data: result, isFetching, isPlaceholderData, error, refetch } = useQuery<QueryResult>({
+    queryKey,
+    queryFn: ({ signal }) => client.queryData(selectedTable!, queryBody!, { signal }),
+    enabled: !!selectedTable && !!queryBody && !infinite,
     placeholderData: (prev) => prev as any,
   });
 
+  // A narrowed filter can leave the offset past the end; step back to the last page.
+  const total = isPlaceholderData ? undefined : result?.total;
+  useEffect(() => {
+    if (pagination !== "offset" || total === undefined || offset === 0 || offset < total) return;
+    setOffset(Math.max(0, Math.floor((total - 1) / limit) * limit));
+  }, [pagination, total, offset, limit]);
+
   const debouncedRefetch = useDebouncedCallback(() => refetch(), 300);
 
   const runQuery = () => debouncedRefetch();
 
-  const onExport = async () => {
-    if (!selectedTable || !queryBody) return;
+  const page = pagination === "keyset" ? cursors.length : Math.floor(offset / limit);
+  const goToPage = (p: number) => {
+    if (pagination === "offset") {
+      setOffset(p * limit);
+    } else if (p === 0) {
+      setCursors([]);
+    } else if (p < cursors.length) {
+      setCursors((c) => c.slice(0, p));
+    } else if (result?.next_cursor && result.next_cursor !== cursors[cursors.length - 1]) {
+      // While the next page loads, `result` still holds the page that produced the last cursor.
+      const next = result.next_cursor;
+      setCursors((c) => [...c, next]);
+    }
+  };
+
+  const cancelQuery = () => queryClient.cancelQueries({ queryKey });
+
+  // Called from the export dialog's click: the save dialog needs that gesture, so the sink opens first.
+  const onExport = async (options: ExportOptions, fileName: string) => {
+    if (!selectedTable) return;
+    const controller = new AbortController();
+    const { label, mime } = exportFormatInfo(options.format);
+    let sink: ExportSink;
+    try {
+      sink = await openExportSink({ fileName, mime, description: label });
+    } catch (e) {
+      if (!isAbortError(e)) {
+        toast({ title: "Export failed", description: errorMessage(e), variant: "destructive" });
+      }
+      return;
+    }
+    exportAbortRef.current = controller;
+    // A stalled write would otherwise hold the export open after Cancel.
+    controller.signal.addEventListener("abort", () => void sink.abort().catch(() => {}));
+    setExporting(true);
+    // Totals count every row the filters match, whatever page is shown, so they hold for the whole export.
+    const meter = new ProgressMeter(infinite ? scroll.total : total);
+    let shownAt = 0;
     try {
-      const stream = await streamData(apiBaseUrl, apiKey, selectedTable, queryBody);
-      const reader = stream.getReader();
-      const chunks: Uint8Array[] = [];
-      let lines = 0;
-      const t = toast({ title: "Export started", description: "Streaming NDJSON…" });
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        if (value) {
-          chunks.push(value);
-          // rough line count
-          lines += new TextDecoder().decode(value).split("\n").filter(Boolean).length;
-          t.update?.({ title: "Exporting…", description: `${lines} lines` } as any);
-        }
+      const stream = await client.streamData(selectedTable, scrollBody, { signal: controller.signal });
+      const rows = await convertStream({
+        stream,
+        options,
+        schema: { columns: columns.length ? columns : undefined, columnTypes: resultColumnTypes },
+        onOutput: async (chunk) => {
+          meter.addBytes(chunk.byteLength);
+          await sink.write(chunk);
+        },
+        onProgress: ({ rows }) => {
+          meter.setRows(rows);
+          // Chunks arrive far faster than is worth rendering.
+          const now = performance.now();
+          if (now - shownAt < EXPORT_PROGRESS_INTERVAL_MS) return;
+          shownAt = now;
+          setExportProgress(meter.snapshot());
+        },
+        signal: controller.signal,
+      });
+      await sink.close();
+      const where = sink.kind === "file" ? `to ${fileName}` : "to your downloads";
+      toast({ title: "Export complete", description: `${rows.toLocaleString()} rows of ${label} saved ${where}` });
+    } catch (e) {
+      if (!controller.signal.aborted) await sink.abort().catch(() => {});
+      if (isAbortError(e) || controller.signal.aborted) {
+        toast({ title: "Export cancelled" });
+      } else {
+        toast({ title: "Export failed", description: errorMessage(e), variant: "destructive" });
       }
-      const blob = new Blob(chunks, { type: "application/x-ndjson" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${selectedTable}-${Date.now()}.ndjson`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast({ title: "Export complete", description: `${lines} lines saved` });
-    } catch (e: any) {
-      toast({ title: "Export failed", description: e?.message, variant: "destructive" as any });
+    } finally {
+      exportAbortRef.current = null;
+      setExporting(false);
+      setExportProgress(null);
     }
   };
 
+  const cancelExport = () => exportAbortRef.current?.abort();
+
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
   // DataGrid (virtualized)
-  const rows = result?.rows ?? [];
+  const scroll = useInfiniteRows({ table: selectedTable, body: scrollBody, pageSize: limit, enabled: infinite });
+
+  const rows = infinite ? scroll.sampleRows : (result?.rows ?? []);
   const columns = useMemo(() => {
+    if (aggregated) return aggregatedColumns(projection);
     if (fields.length) return fields;
     if (rows[0]) return Object.keys(rows[0]);
     return [] as string[];
-  }, [fields, rows]);
+  }, [aggregated, projection, fields, rows]);
+
+  // Aggregate columns are labelled ("Sum of revenue") and typed by their function.
+  const resultColumnTypes = useMemo(
+    () => (aggregated ? aggregatedColumnTypes(projection, columnTypes) : columnTypes),
+    [aggregated, projection, columnTypes]
+  );
+  const columnLabels = useMemo(() => (aggregated ? aggregatedColumnLabels(projection) : undefined), [aggregated, projection]);
 
 
   return (
@@ -195,9 +410,9 @@ useEffect(() => {
                   <SelectValue placeholder="Add column…" />
                 </SelectTrigger>
                 <SelectContent>
-                  {cols?.columns?.map((c) => (
-                    <SelectItem key={c} value={c}>
-                      {c}
+                  {columnMeta.map((c) => (
+                    <SelectItem key={c.name} value={c.name}>
+                      {c.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -222,35 +437,12 @@ useEffect(() => {
 
             <div className="grid gap-2">
               <Label>Sort</Label>
-              <div className="flex gap-2">
-                <select
-                  className="h-9 flex-1 rounded-md border bg-background px-3 text-sm"
-                  value={orderBy.column || ""}
-                  onChange={(e) => setOrderBy((p) => ({ ...p, column: e.target.value }))}
-                >
-                  <option value="">None</option>
-                  {cols?.columns?.map((c) => (
-                    <option key={c} value={c}>
-                      {c}
-                    </option>
-                  ))}
-                </select>
-                <select
-                  className="h-9 w-28 rounded-md border bg-background px-3 text-sm"
-                  value={orderBy.direction}
-                  onChange={(e) => setOrderBy((p) => ({ ...p, direction: e.target.value as any }))}
-                >
-                  <option value="asc">Asc</option>
-                  <option value="desc">Desc</option>
-                </select>
-              </div>
+              <SortEditor sort={orderBy} onChange={setOrderBy} columns={columnMeta} />
             </div>
 
             <div className="grid gap-2">
-              <Label>Pagination</Label>
+              <Label>Rows per page</Label>
               <div className="flex gap-2">
-                <Button variant="secondary" onClick={() => setOffset((o) => Math.max(0, o - limit))}>Prev</Button>
-                <Button variant="secondary" onClick={() => setOffset((o) => o + limit)}>Next</Button>
                 <Input
                   className="w-24"
                   type="number"
@@ -258,6 +450,15 @@ useEffect(() => {
                   value={limit}
                   onChange={(e) => setLimit(Math.max(1, Number(e.target.value)))}
                 />
+                <select
+                  className="h-9 flex-1 rounded-md border bg-background px-3 text-sm"
+                  value={pagination}
+                  onChange={(e) => setPagination(e.target.value as "offset" | "keyset")}
+                  title="Keyset paging stays fast on very large tables but can only step page by page"
+                >
+                  <option value="offset">Offset paging</option>
+                  <option value="keyset">Keyset paging</option>
+                </select>
               </div>
             </div>
           </div>
@@ -266,120 +467,169 @@ useEffect(() => {
             <div className="flex items-center justify-between">
               <Label className="text-base">Filters</Label>
               <div className="flex items-center gap-2">
-                <select
-                  className="h-9 rounded-md border bg-background px-3 text-sm"
-                  value={logical}
-                  onChange={(e) => setLogical(e.target.value as any)}
-                  title="Logical operator"
-                >
-                  <option value="AND">AND</option>
-                  <option value="OR">OR</option>
-                </select>
-                <Button variant="secondary" onClick={() => setFilters((f) => [...f, { op: "eq" } as any])}>Add row</Button>
                 <Button onClick={runQuery}>
                   {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
                   Run Query
                 </Button>
-                <Button variant="outline" onClick={onExport}>
-                  <Download className="mr-2 h-4 w-4" /> Export
-                </Button>
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              {filters.map((f, idx) => {
-                const [low, high] = (f.value || "").toString().split(",");
-                return (
-                  <div key={idx} className="grid gap-2 md:grid-cols-[1fr_160px_1fr_80px]">
-                    <select
-                      className="h-9 rounded-md border bg-background px-3 text-sm"
-                      value={f.column || ""}
-                      onChange={(e) => setFilters((arr) => arr.map((it, i) => (i === idx ? { ...it, column: e.target.value } : it)))}
-                    >
-                      <option value="">Column…</option>
-                      {cols?.columns?.map((c) => (
-                        <option key={c} value={c}>
-                          {c}
-                        </option>
-                      ))}
-                    </select>
-                    <select
-                      className="h-9 rounded-md border bg-background px-3 text-sm"
-                      value={f.op}
-                      onChange={(e) => setFilters((arr) => arr.map((it, i) => (i === idx ? { ...it, op: e.target.value as any, value: undefined } : it)))}
-                    >
-                      {OPS.map((op) => (
-                        <option key={op} value={op}>
-                          {op}
-                        </option>
-                      ))}
-                    </select>
-                    {f.op === "between" ? (
-                      <div className="flex gap-2">
-                        <Input
-                          placeholder="Low"
-                          value={low ?? ""}
-                          onChange={(e) =>
-                            setFilters((arr) =>
-                              arr.map((it, i) =>
-                                i === idx ? { ...it, value: `${e.target.value},${high ?? ""}` } : it
-                              )
-                            )
-                          }
-                        />
-                        <Input
-                          placeholder="High"
-                          value={high ?? ""}
-                          onChange={(e) =>
-                            setFilters((arr) =>
-                              arr.map((it, i) =>
-                                i === idx ? { ...it, value: `${low ?? ""},${e.target.value}` } : it
-                              )
-                            )
-                          }
-                        />
-                      </div>
-                    ) : NO_VALUE_OPS.has(f.op) ? (
-                      <div className="px-2 py-2 text-xs text-muted-foreground">No value</div>
-                    ) : ARRAY_VALUE_OPS.has(f.op) ? (
-                      <Input
-                        placeholder="Comma-separated values"
-                        value={(f.value as any) || ""}
-                        onChange={(e) =>
-                          setFilters((arr) =>
-                            arr.map((it, i) => (i === idx ? { ...it, value: e.target.value } : it))
-                          )
-                        }
-                      />
-                    ) : (
-                      <Input
-                        placeholder="Value"
-                        value={(f.value as any) || ""}
-                        onChange={(e) =>
-                          setFilters((arr) =>
-                            arr.map((it, i) => (i === idx ? { ...it, value: e.target.value } : it))
-                          )
+                <Sheet open={savedOpen} onOpenChange={setSavedOpen}>
+                  <SheetTrigger asChild>
+                    <Button variant="outline">
+                      <BookMarked className="mr-2 h-4 w-4" /> Saved queries
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent className="w-full overflow-y-auto sm:max-w-lg">
+                    <SheetHeader>
+                      <SheetTitle>Saved queries</SheetTitle>
+                    </SheetHeader>
+                    <div className="mt-4">
+                      <SavedQueriesPanel
+                        current={
+                          selectedTable && queryBody ? { table: selectedTable, query: compactQueryState(queryBody) } : undefined
                         }
+                        onOpen={(q) => {
+                          setSavedOpen(false);
+                          navigate(tablePath(q.table, q.query));
+                        }}
                       />
-                    )}
-                    <Button variant="ghost" onClick={() => setFilters((arr) => arr.filter((_, i) => i !== idx))}>Remove</Button>
-                  </div>
-                );
-              })}
+                    </div>
+                  </SheetContent>
+                </Sheet>
+                <Sheet open={profileOpen} onOpenChange={setProfileOpen}>
+                  <SheetTrigger asChild>
+                    <Button variant="outline" disabled={!selectedTable}>
+                      <ScanSearch className="mr-2 h-4 w-4" /> Profile
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent className="w-full overflow-y-auto sm:max-w-5xl">
+                    <SheetHeader>
+                      <SheetTitle>Profile of {selectedTable}</SheetTitle>
+                    </SheetHeader>
+                    <div className="mt-4">
+                      {selectedTable && <ColumnProfilePanel table={selectedTable} enabled={profileOpen} />}
+                    </div>
+                  </SheetContent>
+                </Sheet>
+                {exporting ? (
+                  <>
+                    <span className="text-xs tabular-nums text-muted-foreground">
+                      {exportProgress ? describeProgress(exportProgress) : "Starting export…"}
+                    </span>
+                    <Button variant="outline" onClick={cancelExport}>
+                      <X className="mr-2 h-4 w-4" /> Cancel export
+                    </Button>
+                  </>
+                ) : (
+                  <Button variant="outline" onClick={() => setExportOpen(true)} disabled={!selectedTable}>
+                    <Download className="mr-2 h-4 w-4" /> Export
+                  </Button>
+                )}
+                <ExportDialog
+                  open={exportOpen}
+                  onOpenChange={setExportOpen}
+                  baseName={selectedTable ?? "export"}
+                  onExport={onExport}
+                />
+              </div>
             </div>
+
+            <QueryBar value={queryText} columns={columnNames} columnTypes={columnTypes} onSubmit={applyText} />
+
+            <FilterBuilder
+              root={filterRoot}
+              onChange={setFilterRoot}
+              columns={columnMeta}
+              columnTypes={columnTypes}
+              table={selectedTable}
+            />
+          </div>
+
+          <div className="mt-6 space-y-3">
+            <Label className="text-base">Group &amp; aggregate</Label>
+            <GroupByEditor
+              groupBy={groupBy}
+              aggregates={aggregates}
+              onChange={(keys, aggs) => {
+                setGroupBy(keys);
+                setAggregates(aggs);
+              }}
+              columns={columnMeta}
+            />
           </div>
         </CardContent>
       </Card>
 
       <Card className="relative">
         <CardContent className="pt-6">
-        <DataGrid columns={columns} rows={rows} height={520} />
-        {isFetching && (
+        <Tabs defaultValue="table">
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <TabsList>
+            <TabsTrigger value="table">Table</TabsTrigger>
+            <TabsTrigger value="chart">Visualize</TabsTrigger>
+          </TabsList>
+          <div className="flex items-center gap-2">
+            {infinite && scroll.loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <Switch id="infinite-scroll" checked={infinite} onCheckedChange={setInfinite} />
+            <Label htmlFor="infinite-scroll" className="text-sm">
+              Infinite scroll
+            </Label>
+          </div>
+        </div>
+        {(infinite ? scroll.error : error) && (
+          <p className="mb-2 text-sm text-destructive">Query failed: {errorMessage(infinite ? scroll.error : error)}</p>
+        )}
+        <TabsContent value="table">
+        <DataGrid
+          columns={columns}
+          rows={rows}
+          source={infinite ? scroll : undefined}
+          columnTypes={resultColumnTypes}
+          columnLabels={columnLabels}
+          sort={orderBy}
+          onSortChange={setOrderBy}
+          height={520}
+        />
+        {isFetching && !infinite && (
           <div className="absolute inset-0 grid place-items-center bg-background/60">
-            <Loader2 className="h-6 w-6 animate-spin" />
+            <div className="flex flex-col items-center gap-3">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <Button variant="outline" size="sm" onClick={cancelQuery}>
+                <X className="mr-2 h-4 w-4" /> Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {infinite ? (
+          <div className="mt-2 text-xs text-muted-foreground">
+            {scroll.total !== undefined
+              ? `${scroll.total.toLocaleString()} rows`
+              : `${scroll.count.toLocaleString()} rows loaded so far`}
           </div>
+        ) : (
+          <PaginationBar
+            page={page}
+            offset={pagination === "offset" ? offset : undefined}
+            pageSize={limit}
+            rowCount={rows.length}
+            total={result?.total}
+            keyset={pagination === "keyset"}
+            hasNext={!!result?.next_cursor}
+            onPageChange={goToPage}
+          />
         )}
-        <div className="mt-2 text-xs text-muted-foreground">Total rows: {result?.total ?? 0}</div>
+        </TabsContent>
+        <TabsContent value="chart">
+          {infinite && (
+            <p className="mb-2 text-xs text-muted-foreground">Charting the first loaded page of rows.</p>
+          )}
+          <ChartView
+            columns={columns}
+            rows={rows}
+            columnTypes={resultColumnTypes}
+            columnLabels={columnLabels}
+            name={selectedTable}
+          />
+        </TabsContent>
+        </Tabs>
         </CardContent>
       </Card>
     </section>
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { TagInput } from "@/components/TagInput";
+import { errorMessage } from "@/utils/api";
+
+export interface SavedQueryDetails {
+  name: string;
+  description?: string;
+  tags: string[];
+}
+
+interface SaveQueryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initial?: SavedQueryDetails;
+  /** Tags already used in the library, offered while typing. */
+  knownTags?: string[];
+  onSave: (details: SavedQueryDetails) => Promise<void>;
+}
+
+/** Name, description and tags of a saved query; used both to save and to edit one. */
+export function SaveQueryDialog({ open, onOpenChange, title, initial, knownTags = [], onSave }: SaveQueryDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? "");
+    setDescription(initial?.description ?? "");
+    setTags(initial?.tags ?? []);
+    setError(null);
+  }, [open, initial]);
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ name: name.trim(), description: description.trim() || undefined, tags });
+      onOpenChange(false);
+    } catch (e) {
+      setError(errorMessage(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="saved-query-name">Name</Label>
+            <Input
+              id="saved-query-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && name.trim() && submit()}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="saved-query-description">Description</Label>
+            <Textarea
+              id="saved-query-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Tags</Label>
+            <TagInput
+              values={tags}
+              onChange={setTags}
+              suggestions={knownTags.map((t) => ({ value: t }))}
+              placeholder="Type a tag, Enter to add"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!name.trim() || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
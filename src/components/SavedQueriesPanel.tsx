@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { CloudOff, Pencil, Play, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SaveQueryDialog, type SavedQueryDetails } from "@/components/SaveQueryDialog";
+import { toast } from "@/hooks/use-toast";
+import { useSavedQueries } from "@/hooks/useSavedQueries";
+import { cn } from "@/lib/utils";
+import { errorMessage, type QueryBody, type SavedQuery } from "@/utils/api";
+
+interface SavedQueriesPanelProps {
+  /** The query on screen, offered for saving. */
+  current?: { table: string; query: Partial<QueryBody> };
+  onOpen: (query: SavedQuery) => void;
+}
+
+function matches(q: SavedQuery, needle: string) {
+  return [q.name, q.description ?? "", q.table, ...q.tags].some((s) => s.toLowerCase().includes(needle));
+}
+
+/** Searchable list of saved queries with save, open, edit and delete. */
+export function SavedQueriesPanel({ current, onOpen }: SavedQueriesPanelProps) {
+  const { queries, save, remove, sync, syncing, syncError } = useSavedQueries();
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState<string | null>(null);
+  // undefined: dialog closed, null: saving the current query, otherwise the query being edited.
+  const [editing, setEditing] = useState<SavedQuery | null | undefined>(undefined);
+
+  const allTags = useMemo(() => [...new Set(queries.flatMap((q) => q.tags))].sort(), [queries]);
+  const visible = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return queries.filter((q) => (!tag || q.tags.includes(tag)) && (!needle || matches(q, needle)));
+  }, [queries, search, tag]);
+
+  const onSave = async (details: SavedQueryDetails) => {
+    const target = editing ?? current;
+    if (!target) return;
+    try {
+      await save({ ...details, table: target.table, query: target.query }, editing?.id);
+    } catch (e) {
+      // The query is kept locally and pushed again on the next sync.
+      toast({ title: "Saved locally only", description: `Sync failed: ${errorMessage(e)}` });
+    }
+  };
+
+  const onDelete = async (q: SavedQuery) => {
+    try {
+      await remove(q.id);
+      toast({ title: "Saved query deleted", description: q.name });
+    } catch (e) {
+      toast({ title: "Delete failed", description: errorMessage(e), variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input className="pl-8" placeholder="Search saved queries…" value={search} onChange={(e) => setSearch(e.target.value)} />
+        </div>
+        <Button onClick={() => setEditing(null)} disabled={!current}>
+          <Plus className="mr-2 h-4 w-4" /> Save current
+        </Button>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {allTags.map((t) => (
+            <button key={t} onClick={() => setTag((prev) => (prev === t ? null : t))}>
+              <Badge variant={tag === t ? "default" : "outline"}>{t}</Badge>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+        {!sync ? (
+          <>
+            <CloudOff className="h-3 w-3" /> Stored in this browser; enable sharing in Settings to use the team library.
+          </>
+        ) : syncError ? (
+          <>Team library unavailable ({errorMessage(syncError)}); showing local copies.</>
+        ) : (
+          <>
+            <RefreshCw className={cn("h-3 w-3", syncing && "animate-spin")} /> Shared with your team.
+          </>
+        )}
+      </p>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {queries.length ? "No saved queries match." : "No saved queries yet."}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {visible.map((q) => (
+            <li key={q.id} className="space-y-1 p-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="truncate font-medium" title={q.name}>
+                    {q.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {q.table} · updated {new Date(q.updated_at).toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onOpen(q)} title="Open">
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(q)} title="Rename or edit">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(q)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {q.description && <p className="text-sm text-muted-foreground">{q.description}</p>}
+              {q.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {q.tags.map((t) => (
+                    <Badge key={t} variant="secondary">
+                      {t}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <SaveQueryDialog
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        title={editing ? "Edit saved query" : "Save query"}
+        initial={editing ?? undefined}
+        knownTags={allTags}
+        onSave={onSave}
+      />
+    </div>
+  );
+}
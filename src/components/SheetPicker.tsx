@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useUploadQueueStore, type QueueItem } from "@/store/uploadQueue";
+import { listSheets } from "@/utils/filePreview";
+
+interface SheetPickerProps {
+  item: QueueItem;
+  previewSheet?: string;
+  /** Should be stable, such as a state setter: the workbook is re-read whenever it changes. */
+  onPreviewSheet: (sheet: string) => void;
+}
+
+function defaultTableName(fileName: string, sheet: string) {
+  const base = fileName.replace(/\.[^.]+$/, "");
+  return `${base}_${sheet}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** Lets the user pick which worksheets of a staged workbook to load and name their tables. */
+export function SheetPicker({ item, previewSheet, onPreviewSheet }: SheetPickerProps) {
+  const update = useUploadQueueStore((s) => s.update);
+  const [sheets, setSheets] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const editable = item.state === "staged";
+  const selected = item.sheets ?? [];
+
+  useEffect(() => {
+    let cancelled = false;
+    listSheets(item.file)
+      .then((names) => {
+        if (cancelled) return;
+        setSheets(names);
+        if (names[0]) onPreviewSheet(names[0]);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [item.file, onPreviewSheet]);
+
+  const toggle = (sheet: string, on: boolean) =>
+    update(item.id, {
+      sheets: on
+        ? [...selected, { sheet, table: defaultTableName(item.file.name, sheet) }].sort(
+            (a, b) => sheets!.indexOf(a.sheet) - sheets!.indexOf(b.sheet)
+          )
+        : selected.filter((s) => s.sheet !== sheet),
+    });
+
+  const rename = (sheet: string, table: string) =>
+    update(item.id, { sheets: selected.map((s) => (s.sheet === sheet ? { ...s, table } : s)) });
+
+  if (error) return <p className="text-sm text-destructive">Could not read workbook: {error}</p>;
+  if (!sheets) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Reading sheets…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs">Sheets</Label>
+      <p className="text-xs text-muted-foreground">
+        Tick the sheets to load; each one becomes its own table and upload job. With none ticked the first sheet is
+        loaded.
+      </p>
+      <ul className="space-y-1">
+        {sheets.map((sheet) => {
+          const sel = selected.find((s) => s.sheet === sheet);
+          return (
+            <li key={sheet} className="grid grid-cols-[auto_1fr_1fr] items-center gap-2">
+              <Checkbox
+                checked={!!sel}
+                disabled={!editable}
+                onCheckedChange={(v) => toggle(sheet, v === true)}
+                aria-label={`Load sheet ${sheet}`}
+              />
+              <button
+                className={`truncate rounded-md px-2 py-1 text-left text-sm hover:bg-muted ${
+                  sheet === previewSheet ? "bg-muted font-medium" : ""
+                }`}
+                onClick={() => onPreviewSheet(sheet)}
+                title="Preview sheet"
+              >
+                {sheet}
+              </button>
+              {sel ? (
+                <Input
+                  className="h-8"
+                  value={sel.table}
+                  disabled={!editable}
+                  placeholder="Table name"
+                  onChange={(e) => rename(sheet, e.target.value)}
+                />
+              ) : (
+                <span />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
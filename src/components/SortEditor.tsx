@@ -0,0 +1,79 @@
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ColumnMeta, SortKey } from "@/utils/api";
+
+interface SortEditorProps {
+  sort: SortKey[];
+  onChange: (sort: SortKey[]) => void;
+  columns: ColumnMeta[];
+}
+
+/** Ordered list of sort keys, each with a direction and null placement. */
+export function SortEditor({ sort, onChange, columns }: SortEditorProps) {
+  const patch = (i: number, p: Partial<SortKey>) => onChange(sort.map((k, j) => (j === i ? { ...k, ...p } : k)));
+  const unused = columns.filter((c) => !sort.some((k) => k.column === c.name));
+
+  return (
+    <div className="space-y-2">
+      {sort.map((k, i) => {
+        const Arrow = k.direction === "asc" ? ArrowUp : ArrowDown;
+        // Keys from a link may name a column before the column list has loaded.
+        const options = columns.some((c) => c.name === k.column) ? columns : [{ name: k.column }, ...columns];
+        return (
+          <div key={i} className="flex items-center gap-1">
+            <span className="w-4 text-xs text-muted-foreground">{i + 1}</span>
+            <select
+              className="h-9 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+              value={k.column}
+              onChange={(e) => patch(i, { column: e.target.value })}
+            >
+              {options
+                .filter((c) => c.name === k.column || !sort.some((s) => s.column === c.name))
+                .map((c) => (
+                  <option key={c.name} value={c.name}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={() => patch(i, { direction: k.direction === "asc" ? "desc" : "asc" })}
+              title={k.direction === "asc" ? "Ascending" : "Descending"}
+            >
+              <Arrow className="h-4 w-4" />
+            </Button>
+            <select
+              className="h-9 w-24 shrink-0 rounded-md border bg-background px-2 text-sm"
+              value={k.nulls ?? ""}
+              onChange={(e) => patch(i, { nulls: (e.target.value || undefined) as SortKey["nulls"] })}
+              title="Null placement"
+            >
+              <option value="">Nulls: default</option>
+              <option value="first">Nulls first</option>
+              <option value="last">Nulls last</option>
+            </select>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={() => onChange(sort.filter((_, j) => j !== i))}
+              title="Remove sort key"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        variant="secondary"
+        size="sm"
+        disabled={!unused.length}
+        onClick={() => onChange([...sort, { column: unused[0].name, direction: "asc" }])}
+      >
+        <Plus className="mr-1 h-4 w-4" /> {sort.length ? "Add sort key" : "Add sort"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { SuggestionList, type Suggestion } from "@/components/SuggestionList";
+
+interface SuggestInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestions?: Suggestion[];
+  suggestionsLoading?: boolean;
+  onFocus?: () => void;
+  placeholder?: string;
+}
+
+/** Text input offering value suggestions that match what has been typed. */
+export function SuggestInput({ value, onChange, suggestions = [], suggestionsLoading, onFocus, placeholder }: SuggestInputProps) {
+  const [open, setOpen] = useState(false);
+  const needle = value.toLowerCase();
+  const matches = suggestions.filter((s) => s.value !== value && s.value.toLowerCase().includes(needle)).slice(0, 20);
+  return (
+    <div className="relative">
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => {
+          setOpen(true);
+          onFocus?.();
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => e.key === "Escape" && setOpen(false)}
+      />
+      {open && (
+        <SuggestionList
+          suggestions={matches}
+          loading={suggestionsLoading}
+          onPick={(v) => {
+            onChange(v);
+            setOpen(false);
+          }}
+        />
+      )}
+    </div>
+  );
+}
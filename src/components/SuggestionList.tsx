@@ -0,0 +1,35 @@
+export interface Suggestion {
+  value: string;
+  count?: number;
+}
+
+interface SuggestionListProps {
+  suggestions: Suggestion[];
+  onPick: (value: string) => void;
+  loading?: boolean;
+}
+
+/** Dropdown of value suggestions shown under an input; render it inside a relative container. */
+export function SuggestionList({ suggestions, onPick, loading }: SuggestionListProps) {
+  if (!suggestions.length && !loading) return null;
+  return (
+    <ul className="absolute z-20 mt-1 max-h-56 w-full overflow-auto rounded-md border bg-popover py-1 text-sm shadow-md">
+      {suggestions.map((s) => (
+        <li key={s.value}>
+          <button
+            className="flex w-full justify-between gap-2 px-3 py-1 text-left hover:bg-muted"
+            // mousedown fires before the input's blur closes the list
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onPick(s.value);
+            }}
+          >
+            <span className="truncate">{s.value}</span>
+            {s.count !== undefined && <span className="text-xs text-muted-foreground">{s.count.toLocaleString()}</span>}
+          </button>
+        </li>
+      ))}
+      {loading && <li className="px-3 py-1 text-xs text-muted-foreground">Loading…</li>}
+    </ul>
+  );
+}
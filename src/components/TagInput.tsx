@@ -0,0 +1,91 @@
+import { useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+import { SuggestionList, type Suggestion } from "@/components/SuggestionList";
+import { cn } from "@/lib/utils";
+
+interface TagInputProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  /** Offered while typing; already selected values are hidden. */
+  suggestions?: Suggestion[];
+  suggestionsLoading?: boolean;
+  onInputChange?: (text: string) => void;
+  onFocus?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Multi-value input. Enter adds the typed text as one value, so values may
+ * contain commas; Backspace on an empty input removes the last value.
+ */
+export function TagInput({
+  values,
+  onChange,
+  suggestions = [],
+  suggestionsLoading,
+  onInputChange,
+  onFocus,
+  placeholder,
+  className,
+}: TagInputProps) {
+  const [text, setText] = useState("");
+  const [open, setOpen] = useState(false);
+
+  const setInput = (t: string) => {
+    setText(t);
+    onInputChange?.(t);
+  };
+
+  const add = (v: string) => {
+    if (v.trim() && !values.includes(v)) onChange([...values, v]);
+    setInput("");
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      add(text);
+    } else if (e.key === "Backspace" && !text && values.length) {
+      onChange(values.slice(0, -1));
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const needle = text.toLowerCase();
+  const matches = suggestions
+    .filter((s) => !values.includes(s.value) && s.value.toLowerCase().includes(needle))
+    .slice(0, 20);
+
+  return (
+    <div className={cn("relative", className)}>
+      <div className="flex min-h-9 flex-wrap items-center gap-1 rounded-md border bg-background px-2 py-1">
+        {values.map((v) => (
+          <span key={v} className="flex items-center gap-1 rounded bg-muted px-1.5 py-0.5 text-xs">
+            {v}
+            <button onClick={() => onChange(values.filter((x) => x !== v))} title={`Remove ${v}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          className="min-w-[80px] flex-1 bg-transparent text-sm outline-none"
+          value={text}
+          placeholder={values.length ? undefined : placeholder}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => {
+            setOpen(true);
+            onFocus?.();
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={onKeyDown}
+        />
+      </div>
+      {open && <SuggestionList suggestions={matches} onPick={add} loading={suggestionsLoading} />}
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
-import { useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { useConfigStore } from "@/store/config";
-import { uploadFile } from "@/utils/api";
-import { useUploadStatus } from "@/hooks/useUploadStatus";
+import { FINISHED_STATES, ingestProblem, runQueueItem, useUploadQueueStore } from "@/store/uploadQueue";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { ACCEPTED_FILE_PATTERN, filesFromDataTransfer } from "@/utils/dropFiles";
+import { formatBytes } from "@/utils/format";
+import { UploadQueueItem } from "@/components/UploadQueueItem";
+import { FilePreviewPanel } from "@/components/FilePreviewPanel";
 import { toast } from "@/hooks/use-toast";
 
 interface UploadPanelProps {
@@ -12,79 +18,135 @@ interface UploadPanelProps {
 }
 
 export function UploadPanel({ onComplete }: UploadPanelProps) {
-  const { apiBaseUrl, apiKey } = useConfigStore();
-  const [file, setFile] = useState<File | null>(null);
-  const [jobId, setJobId] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const status = useUploadStatus(jobId || undefined, apiBaseUrl);
+  const { uploadConcurrency, setUploadConcurrency } = useConfigStore();
+  const client = useCrunchyClient();
+  const { items, enqueue, startStaged, clearFinished } = useUploadQueueStore();
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const previewItem = items.find((it) => it.id === previewId);
 
-  const progress = status?.uploaded && status?.total ? Math.round((status.uploaded / status.total) * 100) : 0;
-  const isProcessing = status?.status && ["processing", "processed", "completed"].includes(status.status);
+  // Start queued items whenever a slot frees up.
+  useEffect(() => {
+    const active = items.filter((it) => it.state === "uploading").length;
+    const free = Math.max(0, uploadConcurrency - active);
+    items
+      .filter((it) => it.state === "queued")
+      .slice(0, free)
+      .forEach((it) => runQueueItem(client, it.id));
+  }, [items, uploadConcurrency, client]);
 
-  const handleUpload = async () => {
-    if (!file) return;
-    try {
-      setUploading(true);
-      const { job_id } = await uploadFile(apiBaseUrl, apiKey, file);
-      setJobId(job_id);
-      toast({ title: "Upload started", description: `Job ${job_id}` });
-    } catch (e: any) {
-      toast({ title: "Upload failed", description: e?.message, variant: "destructive" as any });
-      setUploading(false);
+  const summary = useMemo(() => {
+    const counts: Record<string, number> = {};
+    let sentBytes = 0;
+    let totalBytes = 0;
+    for (const it of items) {
+      counts[it.state] = (counts[it.state] ?? 0) + 1;
+      if (it.state === "cancelled") continue;
+      totalBytes += it.file.size;
+      sentBytes += it.state === "processing" || it.state === "completed" ? it.file.size : (it.progress?.sentBytes ?? 0);
     }
+    return { counts, sentBytes, totalBytes };
+  }, [items]);
+
+  const addFiles = (files: File[]) => {
+    const accepted = files.filter((f) => ACCEPTED_FILE_PATTERN.test(f.name));
+    if (accepted.length < files.length) {
+      toast({ title: "Some files were skipped", description: "Only CSV and Excel files can be uploaded." });
+    }
+    enqueue(accepted.map((file) => ({ file, path: file.name })));
   };
 
-  if (status?.status === "completed") {
-    onComplete?.(status.table || undefined);
-  }
+  const overall = summary.totalBytes ? Math.round((summary.sentBytes / summary.totalBytes) * 100) : 0;
+  const finished = items.filter((it) => FINISHED_STATES.has(it.state)).length;
+  const staged = items.filter((it) => it.state === "staged" && !ingestProblem(it.ingest)).length;
 
   return (
     <section id="upload-panel" className="container mx-auto animate-fade-in">
       <Card className="shadow-sm">
         <CardHeader>
           <CardTitle>Upload CSV/Excel</CardTitle>
-          <CardDescription>Drag-and-drop your file or use the picker. Real-time status appears below.</CardDescription>
+          <CardDescription>
+            Drag-and-drop files or whole folders, or use the picker. Real-time status for each file appears below.
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div
             className="rounded-md border border-dashed p-6 text-center"
             onDragOver={(e) => e.preventDefault()}
-            onDrop={(e) => {
+            onDrop={async (e) => {
               e.preventDefault();
-              const f = e.dataTransfer.files?.[0];
-              if (f) setFile(f);
+              const picked = await filesFromDataTransfer(e.dataTransfer);
+              if (!picked.length) {
+                toast({ title: "Nothing to upload", description: "No CSV or Excel files were found in the drop." });
+                return;
+              }
+              enqueue(picked);
             }}
           >
             <input
               ref={inputRef}
               type="file"
+              multiple
               accept=".csv, application/vnd.ms-excel, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
               className="hidden"
-              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
             />
-            <p className="text-sm text-muted-foreground mb-3">Drop file here or</p>
-            <Button variant="secondary" onClick={() => inputRef.current?.click()}>Choose file</Button>
-            {file && <p className="mt-2 text-sm">Selected: {file.name}</p>}
+            <p className="text-sm text-muted-foreground mb-3">Drop files or folders here or</p>
+            <Button variant="secondary" onClick={() => inputRef.current?.click()}>Choose files</Button>
+          </div>
 
-            <div className="mt-4 flex justify-center">
-              <Button disabled={!file || uploading} onClick={handleUpload}>Start upload</Button>
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="upload-concurrency" className="text-sm">Concurrent uploads</Label>
+              <Input
+                id="upload-concurrency"
+                className="h-8 w-20"
+                type="number"
+                min={1}
+                max={8}
+                value={uploadConcurrency}
+                onChange={(e) => setUploadConcurrency(Number(e.target.value))}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              {finished > 0 && (
+                <Button variant="ghost" size="sm" onClick={clearFinished}>Clear finished</Button>
+              )}
+              <Button size="sm" disabled={!staged} onClick={startStaged}>
+                Start upload{staged > 1 ? `s (${staged})` : ""}
+              </Button>
             </div>
           </div>
 
-          {jobId && (
-            <div className="mt-6 space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span>Status: {status?.status || "waiting"}</span>
-                {typeof progress === "number" && <span>{progress}%</span>}
+          {items.length > 0 && (
+            <div className="mt-4 space-y-3">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {formatBytes(summary.sentBytes)} of {formatBytes(summary.totalBytes)} sent ·{" "}
+                    {Object.entries(summary.counts)
+                      .map(([state, n]) => `${n} ${state}`)
+                      .join(", ")}
+                  </span>
+                  <span>{overall}%</span>
+                </div>
+                <Progress value={overall} />
               </div>
-              <Progress value={progress} />
-              {isProcessing && (
-                <p className="text-sm text-muted-foreground">Processing rows: {status?.rows ?? 0}</p>
-              )}
-              {status?.error && (
-                <p className="text-sm text-destructive">Error: {status.error}</p>
-              )}
+              <ul className="space-y-2">
+                {items.map((item) => (
+                  <UploadQueueItem
+                    key={item.id}
+                    item={item}
+                    onComplete={onComplete}
+                    previewing={item.id === previewId}
+                    onTogglePreview={() => setPreviewId((id) => (id === item.id ? null : item.id))}
+                  />
+                ))}
+              </ul>
+              {previewItem && <FilePreviewPanel key={previewItem.id} item={previewItem} />}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,125 @@
+import { useEffect } from "react";
+import { Eye, Pause, Play, RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { FINISHED_STATES, ingestProblem, useUploadQueueStore, type QueueItem } from "@/store/uploadQueue";
+import { useUploadStatus, type ConnectionState } from "@/hooks/useUploadStatus";
+import { formatBytes } from "@/utils/format";
+
+interface UploadQueueItemProps {
+  item: QueueItem;
+  onComplete?: (table?: string) => void;
+  previewing?: boolean;
+  onTogglePreview?: () => void;
+}
+
+const CONNECTION_LABELS: Partial<Record<ConnectionState, string>> = {
+  connecting: "connecting…",
+  reconnecting: "connection lost, reconnecting…",
+  polling: "live updates unavailable, polling",
+  failed: "status unavailable",
+};
+
+/** One row of the upload queue; follows its own job's status stream once the file is sent. */
+export function UploadQueueItem({ item, onComplete, previewing, onTogglePreview }: UploadQueueItemProps) {
+  const { update, pause, resume, cancel, retry, remove } = useUploadQueueStore();
+  const { status, connection } = useUploadStatus(item.state === "processing" ? item.jobId : undefined);
+
+  useEffect(() => {
+    if (item.state !== "processing" || !status) return;
+    if (status.error || status.status === "failed" || status.status === "error") {
+      update(item.id, { state: "failed", error: status.error || "Job failed" });
+    } else if (status.status === "completed") {
+      update(item.id, { state: "completed", table: status.table || undefined });
+      onComplete?.(status.table || undefined);
+    }
+  }, [status, item.id, item.state, update, onComplete]);
+
+  const sending = item.state === "uploading" || item.state === "paused" || item.state === "queued";
+  const cancellable = sending || item.state === "staged";
+  const problem = item.state === "staged" ? ingestProblem(item.ingest) : undefined;
+  const mode = item.ingest?.mode ?? "create";
+  const progress =
+    item.state === "completed"
+      ? 100
+      : item.state === "processing"
+        ? status?.uploaded && status?.total
+          ? Math.round((status.uploaded / status.total) * 100)
+          : 0
+        : item.progress?.totalBytes
+          ? Math.round((item.progress.sentBytes / item.progress.totalBytes) * 100)
+          : 0;
+
+  return (
+    <li className="space-y-1 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="truncate font-medium" title={item.path}>
+          {item.path}
+        </span>
+        <div className="flex shrink-0 items-center gap-1">
+          <span className="mr-2 text-xs text-muted-foreground">
+            {item.state === "processing" ? status?.status || "processing" : item.state}
+          </span>
+          {onTogglePreview && (
+            <Button
+              variant={previewing ? "secondary" : "ghost"}
+              size="icon"
+              className="h-7 w-7"
+              onClick={onTogglePreview}
+              title="Preview"
+            >
+              <Eye className="h-4 w-4" />
+            </Button>
+          )}
+          {(item.state === "uploading" || item.state === "queued") && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => pause(item.id)} title="Pause">
+              <Pause className="h-4 w-4" />
+            </Button>
+          )}
+          {item.state === "paused" && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => resume(item.id)} title="Resume">
+              <Play className="h-4 w-4" />
+            </Button>
+          )}
+          {cancellable && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => cancel(item.id)} title="Cancel">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+          {(item.state === "failed" || item.state === "cancelled") && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => retry(item.id)} title="Retry">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+          {FINISHED_STATES.has(item.state) && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(item.id)} title="Remove">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={progress} className="h-2" />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {sending && item.progress
+            ? `${formatBytes(item.progress.sentBytes)} of ${formatBytes(item.progress.totalBytes)}`
+            : formatBytes(item.file.size)}
+          {sending && item.progress?.resumedBytes ? ` (resumed from ${formatBytes(item.progress.resumedBytes)})` : ""}
+        </span>
+        {item.state === "processing" && (
+          <span className={connection === "failed" ? "text-destructive" : undefined}>
+            {CONNECTION_LABELS[connection] ? `${CONNECTION_LABELS[connection]} · ` : ""}Rows: {status?.rows ?? 0}
+          </span>
+        )}
+        {item.state === "completed" && item.table && <span>Table: {item.table}</span>}
+        {item.state !== "completed" && mode !== "create" && item.ingest?.table_name && (
+          <span>
+            {mode} → {item.ingest.table_name}
+          </span>
+        )}
+      </div>
+      {problem && <p className="text-xs text-amber-600">{problem}</p>}
+      {item.error && <p className="text-xs text-destructive">Error: {item.error}</p>}
+    </li>
+  );
+}
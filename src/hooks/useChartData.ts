@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { buildChartData, resultColumnType, type ChartSpec } from "@/utils/chartData";
+import { isTemporalType, type ColumnDataType } from "@/utils/columnTypes";
+
+/** Chart data for a spec; time axes are sorted and flagged so ticks are formatted as dates. */
+export function useChartData(
+  rows: Record<string, unknown>[],
+  spec: ChartSpec,
+  columnTypes: Record<string, ColumnDataType | undefined>,
+  columnLabels?: Record<string, string>
+) {
+  const time = isTemporalType(resultColumnType(rows, spec.x, columnTypes[spec.x]));
+  const chart = useMemo(
+    () => buildChartData(rows, { ...spec, sortX: time }, columnLabels),
+    [rows, spec, time, columnLabels]
+  );
+  return { chart, time };
+}
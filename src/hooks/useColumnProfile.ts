@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { useConfigStore } from "@/store/config";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import {
+  SAMPLE_ROWS,
+  profileFromSample,
+  profileStatsBody,
+  readProfileStats,
+  readTopValues,
+  topValuesBody,
+  type ColumnProfile,
+} from "@/utils/columnProfile";
+
+// Module-level so useQueries keeps the combined array stable between renders.
+const resultData = <T>(results: { data?: T }[]) => results.map((r) => r.data);
+
+/**
+ * Profiles every column of a table. Counts, ranges and top values come from
+ * backend aggregates where supported; otherwise, and for histograms, from the
+ * first SAMPLE_ROWS rows.
+ */
+export function useColumnProfile(table?: string, enabled = true) {
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const on = !!table && !!apiBaseUrl && enabled;
+
+  const cols = useQuery({
+    queryKey: ["columns", apiBaseUrl, apiKey, table],
+    queryFn: ({ signal }) => client.getColumns(table!, { signal }),
+    enabled: on,
+  });
+  const columns = useMemo(() => cols.data?.columns ?? [], [cols.data]);
+
+  const sample = useQuery({
+    queryKey: ["profile-sample", apiBaseUrl, apiKey, table],
+    queryFn: ({ signal }) =>
+      client.queryData(table!, { filters: [], logical_operator: "AND", limit: SAMPLE_ROWS, offset: 0 }, { signal }),
+    enabled: on,
+  });
+
+  // Backends without aggregate support reject this or ignore it; the sample then stands in.
+  const stats = useQuery({
+    queryKey: ["profile-stats", apiBaseUrl, apiKey, table, columns],
+    queryFn: async ({ signal }) =>
+      readProfileStats((await client.queryData(table!, profileStatsBody(columns), { signal })).rows[0], columns),
+    enabled: on && columns.length > 0,
+  });
+
+  const topData = useQueries({
+    queries: columns.map((c) => ({
+      queryKey: ["profile-top", apiBaseUrl, apiKey, table, c.name],
+      queryFn: async ({ signal }: { signal: AbortSignal }) =>
+        readTopValues((await client.queryData(table!, topValuesBody(c.name), { signal })).rows, c.name),
+      enabled: !!stats.data,
+    })),
+    combine: resultData,
+  });
+
+  const profiles = useMemo((): ColumnProfile[] => {
+    const rows = sample.data?.rows ?? [];
+    return columns.map((c, i) => {
+      const profile = profileFromSample(rows, c);
+      const exact = stats.data?.[c.name];
+      if (!exact) return { ...profile, distinct: c.distinct_count ?? profile.distinct };
+      return {
+        ...profile,
+        ...exact,
+        min: exact.min ?? profile.min,
+        max: exact.max ?? profile.max,
+        mean: exact.mean ?? profile.mean,
+        top: topData[i] ?? profile.top,
+      };
+    });
+  }, [columns, sample.data, stats.data, topData]);
+
+  return {
+    profiles,
+    /** Whether counts come from the sample rather than the whole table. */
+    sampled: !stats.data,
+    sampleSize: sample.data?.rows.length ?? 0,
+    total: sample.data?.total,
+    loading: cols.isLoading || sample.isLoading || stats.isLoading,
+    error: cols.error ?? sample.error,
+  };
+}
@@ -0,0 +1,9 @@
+import { useMemo } from "react";
+import { useConfigStore } from "@/store/config";
+import { CrunchyClient } from "@/utils/api";
+
+/** Returns a client bound to the configured backend, recreated when the config changes. */
+export function useCrunchyClient() {
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  return useMemo(() => new CrunchyClient({ baseUrl: apiBaseUrl, apiKey }), [apiBaseUrl, apiKey]);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useConfigStore } from "@/store/config";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import type { QueryBody } from "@/utils/api";
+
+interface DistinctValuesArgs {
+  table?: string;
+  column?: string;
+  /** The other active filters, so suggestions narrow along with the query. */
+  filters?: Pick<QueryBody, "filters" | "logical_operator" | "not">;
+  search?: string;
+  /** Suggestions are fetched lazily, e.g. once the input has been focused. */
+  enabled?: boolean;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+const SUGGESTION_LIMIT = 50;
+
+/** Distinct values (with counts) of a column, cached per table/column/filters/search. */
+export function useDistinctValues({ table, column, filters, search = "", enabled = true }: DistinctValuesArgs) {
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const [debounced, setDebounced] = useState(search);
+
+  useEffect(() => {
+    const t = window.setTimeout(() => setDebounced(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [search]);
+
+  const query = useQuery({
+    queryKey: ["distinct", apiBaseUrl, apiKey, table, column, filters, debounced],
+    queryFn: ({ signal }) =>
+      client.getDistinctValues(
+        table!,
+        column!,
+        { ...(filters ?? { filters: [], logical_operator: "AND" }), search: debounced || undefined, limit: SUGGESTION_LIMIT },
+        { signal }
+      ),
+    enabled: enabled && !!table && !!column,
+    staleTime: 60_000,
+  });
+
+  const suggestions = (query.data?.values ?? [])
+    .filter((v) => v.value !== null && v.value !== undefined)
+    .map((v) => ({ value: String(v.value), count: v.count }));
+
+  return { suggestions, loading: query.isFetching, error: query.error };
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import type { IngestOptions } from "@/utils/api";
+import { previewFile, type FilePreview } from "@/utils/filePreview";
+
+/** Parses the head of `file` locally, re-running whenever the overrides change. */
+export function useFilePreview(file?: File, overrides?: IngestOptions) {
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    previewFile(file, overrides)
+      .then((p) => !cancelled && setPreview(p))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, overrides]);
+
+  return { preview, error, loading };
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { isAbortError, type QueryBody } from "@/utils/api";
+
+type Row = Record<string, unknown>;
+
+interface InfiniteRowsArgs {
+  table?: string;
+  /** The query without paging; pages are fetched with their own limit/offset. */
+  body?: Omit<QueryBody, "limit" | "offset">;
+  pageSize: number;
+  enabled?: boolean;
+}
+
+// Pages kept in memory; the least recently viewed are dropped first.
+const MAX_PAGES = 20;
+// Pages just outside the visible range are loaded ahead and not cancelled.
+const PREFETCH_PAGES = 1;
+
+interface PageWindow {
+  /** Map order doubles as recency: viewing a page moves it to the end. */
+  pages: Map<number, Row[]>;
+  loading: Map<number, AbortController>;
+  total?: number;
+  /** End of the furthest page loaded, for backends that do not report a total. */
+  loadedEnd: number;
+  ended: boolean;
+}
+
+const emptyWindow = (): PageWindow => ({ pages: new Map(), loading: new Map(), loadedEnd: 0, ended: false });
+
+/**
+ * Rows of a query fetched page by page as the grid scrolls. Only MAX_PAGES
+ * pages stay in memory, so arbitrarily large results can be scrolled;
+ * rows of pages not (or no longer) loaded read as undefined.
+ */
+export function useInfiniteRows({ table, body, pageSize, enabled = true }: InfiniteRowsArgs) {
+  const client = useCrunchyClient();
+  const windowRef = useRef<PageWindow>(emptyWindow());
+  const [, setVersion] = useState(0);
+  const [error, setError] = useState<unknown>(null);
+
+  const loadPage = useCallback(
+    async (page: number) => {
+      const w = windowRef.current;
+      if (!table || !body || !enabled || w.pages.has(page) || w.loading.has(page)) return;
+      if (w.ended && page * pageSize >= w.loadedEnd) return;
+      const controller = new AbortController();
+      w.loading.set(page, controller);
+      setVersion((v) => v + 1);
+      try {
+        const res = await client.queryData(
+          table,
+          { ...body, limit: pageSize, offset: page * pageSize },
+          { signal: controller.signal }
+        );
+        if (windowRef.current !== w) return;
+        w.pages.set(page, res.rows);
+        while (w.pages.size > MAX_PAGES) w.pages.delete(w.pages.keys().next().value!);
+        w.loadedEnd = Math.max(w.loadedEnd, page * pageSize + res.rows.length);
+        if (res.rows.length < pageSize) w.ended = true;
+        if (typeof res.total === "number") w.total = res.total;
+        setError(null);
+      } catch (e) {
+        if (!isAbortError(e) && windowRef.current === w) setError(e);
+      } finally {
+        w.loading.delete(page);
+        if (windowRef.current === w) setVersion((v) => v + 1);
+      }
+    },
+    [client, table, body, pageSize, enabled]
+  );
+
+  // A new query starts from an empty window with its first page, and cancels requests for the old one.
+  useEffect(() => {
+    const w = emptyWindow();
+    windowRef.current = w;
+    setError(null);
+    loadPage(0);
+    return () => w.loading.forEach((c) => c.abort());
+  }, [loadPage]);
+
+  /** Loads the pages covering rows `start`–`end` and cancels loads that scrolled out of view. */
+  const onRangeChange = useCallback(
+    (start: number, end: number) => {
+      const w = windowRef.current;
+      const first = Math.max(0, Math.floor(start / pageSize) - PREFETCH_PAGES);
+      const last = Math.floor(end / pageSize) + PREFETCH_PAGES;
+      w.loading.forEach((c, p) => {
+        if (p < first || p > last) c.abort();
+      });
+      for (let p = first; p <= last; p++) {
+        const rows = w.pages.get(p);
+        if (rows) {
+          w.pages.delete(p);
+          w.pages.set(p, rows);
+        } else {
+          loadPage(p);
+        }
+      }
+    },
+    [pageSize, loadPage]
+  );
+
+  /** Without a reported total, reaching the end loads the next page. */
+  const onEndReached = useCallback(() => {
+    const w = windowRef.current;
+    if (!w.ended) loadPage(Math.ceil(w.loadedEnd / pageSize));
+  }, [pageSize, loadPage]);
+
+  const w = windowRef.current;
+  const getRow = (index: number): Row | undefined => w.pages.get(Math.floor(index / pageSize))?.[index % pageSize];
+  const firstPage = w.pages.get(0) ?? w.pages.values().next().value;
+
+  return {
+    count: w.total ?? w.loadedEnd,
+    total: w.total,
+    getRow,
+    onRangeChange,
+    onEndReached,
+    /** Some loaded rows, e.g. to size columns. */
+    sampleRows: firstPage ?? [],
+    loading: w.loading.size > 0,
+    error,
+  };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useConfigStore } from "@/store/config";
+import { useSavedQueriesStore, type SavedQueryRecord } from "@/store/savedQueries";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { ApiError, type SavedQuery } from "@/utils/api";
+import { randomId } from "@/utils/randomId";
+
+export type SavedQueryInput = Pick<SavedQuery, "name" | "description" | "tags" | "table" | "query">;
+
+const SYNC_INTERVAL_MS = 60_000;
+
+/**
+ * The saved queries library. Queries are always kept in localStorage; with
+ * sharing enabled in the settings they are also written to the backend, and
+ * the backend's library is merged in periodically.
+ */
+export function useSavedQueries() {
+  const { apiBaseUrl, apiKey, syncSavedQueries } = useConfigStore();
+  const client = useCrunchyClient();
+  const queryClient = useQueryClient();
+  const { queries, upsert, remove: removeLocal, mergeRemote } = useSavedQueriesStore();
+  const sync = syncSavedQueries && !!apiBaseUrl;
+  const queryKey = ["saved-queries", apiBaseUrl, apiKey];
+
+  const remote = useQuery({
+    queryKey,
+    queryFn: ({ signal }) => client.listSavedQueries({ signal }),
+    enabled: sync,
+    refetchInterval: SYNC_INTERVAL_MS,
+  });
+
+  // Failures pushing local queries; the list itself still loads, so this is reported alongside it.
+  const [pushError, setPushError] = useState<Error | null>(null);
+
+  const push = useCallback(
+    async (record: SavedQueryRecord) => {
+      const { synced: _synced, shared: _shared, ...query } = record;
+      const saved = await client.putSavedQuery(query);
+      // Keep a newer local edit made while the request was in flight.
+      const current = useSavedQueriesStore.getState().queries[record.id];
+      if (current?.updated_at === record.updated_at) upsert({ ...query, ...saved, synced: true, shared: true });
+      else if (current) upsert({ ...current, shared: true });
+    },
+    [client, upsert]
+  );
+
+  useEffect(() => {
+    if (!remote.data) return;
+    mergeRemote(remote.data.queries ?? []);
+    // Queries saved while offline or before sharing was enabled.
+    const pending = Object.values(useSavedQueriesStore.getState().queries).filter((q) => !q.synced);
+    Promise.all(pending.map(push))
+      .then(() => setPushError(null))
+      .catch((e) => setPushError(e instanceof Error ? e : new Error(String(e))));
+  }, [remote.data, mergeRemote, push]);
+
+  const list = useMemo(() => Object.values(queries).sort((a, b) => a.name.localeCompare(b.name)), [queries]);
+
+  /** Creates a query, or updates it when `id` is given. Rejects when sharing is on and the backend fails. */
+  const save = async (input: SavedQueryInput, id?: string) => {
+    const record: SavedQueryRecord = {
+      ...input,
+      id: id ?? randomId(),
+      updated_at: new Date().toISOString(),
+      synced: false,
+      shared: id ? useSavedQueriesStore.getState().queries[id]?.shared : false,
+    };
+    upsert(record);
+    if (sync) await push(record);
+    return record;
+  };
+
+  const remove = async (id: string) => {
+    const record = useSavedQueriesStore.getState().queries[id];
+    // An unsynced edit of a shared query still has to go, or the next merge brings it back.
+    if (sync && (record?.synced || record?.shared)) {
+      try {
+        await client.deleteSavedQuery(id);
+      } catch (e) {
+        // Already gone, e.g. a retried delete or a teammate deleted it first.
+        if (!(e instanceof ApiError && e.status === 404)) throw e;
+      }
+      queryClient.invalidateQueries({ queryKey });
+    }
+    removeLocal(id);
+  };
+
+  return {
+    queries: list,
+    save,
+    remove,
+    sync,
+    syncing: remote.isFetching,
+    syncError: remote.error ?? pushError,
+  };
+}
@@ -1,38 +1,121 @@
-import { useEffect, useRef, useState } from "react";
-
-interface StatusMsg {
-  status: string;
-  uploaded?: number;
-  total?: number;
-  rows?: number;
-  table?: string;
-  error?: string | null;
+import { useEffect, useState } from "react";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { useJobHistoryStore } from "@/store/jobHistory";
+import { isAbortError, TERMINAL_JOB_STATUSES, type JobStatus } from "@/utils/api";
+
+export type ConnectionState = "idle" | "connecting" | "live" | "reconnecting" | "polling" | "failed" | "closed";
+
+const MAX_RECONNECTS = 6;
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 15_000;
+// A socket that never opens after this many tries is most likely blocked by a proxy.
+const ATTEMPTS_BEFORE_POLLING = 2;
+const POLL_INTERVAL_MS = 2_000;
+const MAX_POLL_FAILURES = 5;
+
+function backoff(attempt: number) {
+  const ms = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+  return ms / 2 + Math.random() * (ms / 2);
 }
 
-export function useUploadStatus(jobId?: string, apiBaseUrl?: string) {
-  const [status, setStatus] = useState<StatusMsg | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+/**
+ * Follows a job's status over its WebSocket, reconnecting with backoff when the
+ * socket drops and falling back to polling GET /jobs/{id} when WebSockets are
+ * unavailable. The last known status is kept across reconnects, and every
+ * update is recorded in the job history.
+ */
+export function useUploadStatus(jobId?: string) {
+  const client = useCrunchyClient();
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [connection, setConnection] = useState<ConnectionState>("idle");
 
   useEffect(() => {
-    if (!jobId || !apiBaseUrl) return;
-    const host = apiBaseUrl.replace(/^https?:\/\//, "");
-    const url = `ws://${host}/ws/status/${jobId}`;
+    setStatus(null);
+    if (!jobId) {
+      setConnection("idle");
+      return;
+    }
+
+    let disposed = false;
+    let ws: WebSocket | null = null;
+    let timer: number | undefined;
+    let attempt = 0;
+    let opened = false;
+    let pollFailures = 0;
+    let last: JobStatus | null = null;
+    const controller = new AbortController();
+
+    const apply = (s: JobStatus) => {
+      last = s;
+      setStatus(s);
+      useJobHistoryStore.getState().recordStatus(jobId, s);
+    };
+    const finished = () => !!last && TERMINAL_JOB_STATUSES.has(last.status);
 
-    const ws = new WebSocket(url);
-    wsRef.current = ws;
+    const poll = async () => {
+      if (disposed) return;
+      setConnection("polling");
+      try {
+        apply(await client.getJob(jobId, { signal: controller.signal }));
+        pollFailures = 0;
+      } catch (e) {
+        if (isAbortError(e)) return;
+        if (++pollFailures >= MAX_POLL_FAILURES) {
+          setConnection("failed");
+          return;
+        }
+      }
+      if (finished()) setConnection("closed");
+      else timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+    };
 
-    ws.onmessage = (e) => {
+    const connect = () => {
+      if (disposed) return;
+      setConnection(attempt === 0 ? "connecting" : "reconnecting");
       try {
-        const data = JSON.parse(e.data) as StatusMsg;
-        setStatus(data);
-      } catch (err) {
-        console.error("WS parse error", err);
+        ws = new WebSocket(client.statusSocketUrl(jobId));
+      } catch {
+        // Mixed content or an invalid URL throws synchronously.
+        poll();
+        return;
       }
+      ws.onopen = () => {
+        opened = true;
+        attempt = 0;
+        setConnection("live");
+      };
+      ws.onmessage = (e) => {
+        try {
+          apply(JSON.parse(e.data) as JobStatus);
+        } catch (err) {
+          console.error("WS parse error", err);
+        }
+      };
+      ws.onclose = () => {
+        ws = null;
+        if (disposed) return;
+        if (finished()) {
+          setConnection("closed");
+          return;
+        }
+        attempt++;
+        if ((!opened && attempt >= ATTEMPTS_BEFORE_POLLING) || attempt > MAX_RECONNECTS) {
+          poll();
+          return;
+        }
+        setConnection("reconnecting");
+        timer = window.setTimeout(connect, backoff(attempt));
+      };
     };
-    ws.onerror = (e) => console.error("WS error", e);
 
-    return () => ws.close();
-  }, [jobId, apiBaseUrl]);
+    connect();
+    return () => {
+      disposed = true;
+      window.clearTimeout(timer);
+      controller.abort();
+      ws?.close();
+    };
+  }, [jobId, client]);
 
-  return status;
+  return { status, connection };
 }
@@ -0,0 +1,80 @@
+import { useMemo } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useConfigStore } from "@/store/config";
+import type { DashboardFilter, DashboardWidget } from "@/store/dashboards";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import {
+  aggregatedColumnLabels,
+  aggregatedColumnTypes,
+  aggregatedColumns,
+  withGroupAliases,
+} from "@/utils/aggregates";
+import type { ColumnDataType } from "@/utils/columnTypes";
+import { dashboardConditions, withDashboardFilters } from "@/utils/dashboardFilters";
+
+/**
+ * Runs a dashboard widget's query with the dashboard filters that apply to
+ * its table, refetching every `refreshSeconds` when set.
+ */
+export function useWidgetData(widget: DashboardWidget, filters: DashboardFilter[], refreshSeconds: number) {
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const { table } = widget;
+  // Queries saved before group keys had aliases still get distinct result columns.
+  const query = useMemo(() => {
+    const { group_by } = widget.query;
+    return group_by ? { ...widget.query, group_by: withGroupAliases(group_by) } : widget.query;
+  }, [widget.query]);
+
+  // Filters only apply to columns the table has, so its columns are needed before querying.
+  const cols = useQuery({
+    queryKey: ["columns", apiBaseUrl, apiKey, table],
+    queryFn: ({ signal }) => client.getColumns(table, { signal }),
+    enabled: !!apiBaseUrl,
+  });
+  const columnTypes = useMemo(
+    () =>
+      Object.fromEntries((cols.data?.columns ?? []).map((c) => [c.name, c.data_type])) as Record<
+        string,
+        ColumnDataType | undefined
+      >,
+    [cols.data]
+  );
+  const conditions = useMemo(() => dashboardConditions(filters, columnTypes), [filters, columnTypes]);
+  const body = useMemo(() => withDashboardFilters(query, conditions), [query, conditions]);
+
+  const result = useQuery({
+    queryKey: ["query", apiBaseUrl, apiKey, table, body],
+    queryFn: ({ signal }) => client.queryData(table, body, { signal }),
+    enabled: !!cols.data,
+    refetchInterval: refreshSeconds > 0 ? refreshSeconds * 1000 : false,
+    placeholderData: keepPreviousData,
+  });
+
+  const rows = useMemo(() => result.data?.rows ?? [], [result.data]);
+  const aggregated = !!(query.group_by?.length || query.aggregates?.length);
+  const columns = useMemo(() => {
+    if (aggregated) return aggregatedColumns(query);
+    if (query.fields?.length) return query.fields;
+    return rows[0] ? Object.keys(rows[0]) : [];
+  }, [aggregated, query, rows]);
+
+  const resultTypes = useMemo(
+    () => (aggregated ? aggregatedColumnTypes(query, columnTypes) : columnTypes),
+    [aggregated, query, columnTypes]
+  );
+  const columnLabels = useMemo(() => (aggregated ? aggregatedColumnLabels(query) : undefined), [aggregated, query]);
+
+  return {
+    columns,
+    rows,
+    total: result.data?.total,
+    columnTypes: resultTypes,
+    columnLabels,
+    /** Dashboard conditions applied to this widget. */
+    applied: conditions.length,
+    loading: cols.isLoading || result.isFetching,
+    error: cols.error ?? result.error,
+    updatedAt: result.dataUpdatedAt,
+  };
+}
@@ -0,0 +1,255 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import { LayoutDashboard, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Navbar } from "@/components/Navbar";
+import { AddWidgetDialog } from "@/components/AddWidgetDialog";
+import { DashboardFilterBar } from "@/components/DashboardFilterBar";
+import { DashboardWidget } from "@/components/DashboardWidget";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { useConfigStore } from "@/store/config";
+import { useDashboardsStore } from "@/store/dashboards";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import type { ColumnMeta } from "@/utils/api";
+
+const ROW_HEIGHT = 360;
+
+const REFRESH_OPTIONS = [
+  { seconds: 0, label: "Off" },
+  { seconds: 30, label: "Every 30 s" },
+  { seconds: 60, label: "Every minute" },
+  { seconds: 300, label: "Every 5 minutes" },
+  { seconds: 900, label: "Every 15 minutes" },
+];
+
+const Dashboards = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const queryClient = useQueryClient();
+  const { dashboards, create, update, remove, addWidget, updateWidget, removeWidget, moveWidget } = useDashboardsStore();
+  const [adding, setAdding] = useState(false);
+
+  const list = useMemo(() => Object.values(dashboards).sort((a, b) => a.name.localeCompare(b.name)), [dashboards]);
+  const dashboard = id ? dashboards[id] : undefined;
+
+  // Filters can use any column of the tables on the dashboard.
+  const tables = useMemo(
+    () => [...new Set(Object.values(dashboard?.widgets ?? {}).map((w) => w.table))].sort(),
+    [dashboard?.widgets]
+  );
+  const filterColumns = useQueries({
+    queries: tables.map((table) => ({
+      queryKey: ["columns", apiBaseUrl, apiKey, table],
+      queryFn: ({ signal }: { signal: AbortSignal }) => client.getColumns(table, { signal }),
+      enabled: !!apiBaseUrl,
+    })),
+    combine: (results) => {
+      const byName = new Map<string, ColumnMeta>();
+      for (const r of results) for (const c of r.data?.columns ?? []) if (!byName.has(c.name)) byName.set(c.name, c);
+      return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+    },
+  });
+
+  if (!id && list.length) return <Navigate to={`/dashboards/${list[0].id}`} replace />;
+
+  const onCreate = () => {
+    const newId = create(`Dashboard ${list.length + 1}`);
+    navigate(`/dashboards/${newId}`);
+  };
+
+  const onDelete = () => {
+    if (!dashboard) return;
+    remove(dashboard.id);
+    const next = list.find((d) => d.id !== dashboard.id);
+    navigate(next ? `/dashboards/${next.id}` : "/dashboards", { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto space-y-4 py-8">
+        <Card>
+          <CardContent className="flex flex-wrap items-end gap-4 pt-6">
+            <div className="grid gap-2">
+              <Label>Dashboard</Label>
+              <select
+                className="h-9 w-56 rounded-md border bg-background px-3 text-sm"
+                value={dashboard?.id ?? ""}
+                onChange={(e) => navigate(`/dashboards/${e.target.value}`)}
+              >
+                {!dashboard && <option value="">{list.length ? "Select dashboard…" : "No dashboards"}</option>}
+                {list.map((d) => (
+                  <option key={d.id} value={d.id}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {dashboard && (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="dashboard-name">Name</Label>
+                  <Input
+                    id="dashboard-name"
+                    className="w-56"
+                    value={dashboard.name}
+                    onChange={(e) => update(dashboard.id, { name: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Auto-refresh</Label>
+                  <select
+                    className="h-9 rounded-md border bg-background px-3 text-sm"
+                    value={dashboard.refreshSeconds}
+                    onChange={(e) => update(dashboard.id, { refreshSeconds: Number(e.target.value) })}
+                  >
+                    {REFRESH_OPTIONS.map((o) => (
+                      <option key={o.seconds} value={o.seconds}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+            <div className="ml-auto flex gap-2">
+              {dashboard && (
+                <>
+                  <Button variant="outline" onClick={() => queryClient.invalidateQueries({ queryKey: ["query"] })}>
+                    <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+                  </Button>
+                  <Button variant="outline" onClick={() => setAdding(true)}>
+                    <Plus className="mr-2 h-4 w-4" /> Add widget
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" title="Delete dashboard">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete “{dashboard.name}”?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Its widgets are removed too. The saved queries they came from are kept.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+              <Button onClick={onCreate}>
+                <LayoutDashboard className="mr-2 h-4 w-4" /> New dashboard
+              </Button>
+            </div>
+          </CardContent>
+          {dashboard && (
+            <CardContent className="space-y-2">
+              <Label className="text-base">Filters</Label>
+              <DashboardFilterBar
+                filters={dashboard.filters}
+                onChange={(filters) => update(dashboard.id, { filters })}
+                columns={filterColumns}
+              />
+            </CardContent>
+          )}
+        </Card>
+
+        {!dashboard ? (
+          <p className="py-16 text-center text-sm text-muted-foreground">
+            {id ? "This dashboard no longer exists." : "Create a dashboard to pin query results side by side."}
+          </p>
+        ) : !dashboard.layout.length ? (
+          <p className="py-16 text-center text-sm text-muted-foreground">
+            No widgets yet. Add one from your saved queries.
+          </p>
+        ) : (
+          <div className="rounded-lg border bg-card" style={{ height: dashboard.layout.length * ROW_HEIGHT }}>
+            {/* Panel sizes are remembered per arrangement, so moving widgets starts from even sizes. */}
+            <ResizablePanelGroup
+              direction="vertical"
+              autoSaveId={`crunchy-dashboard-${dashboard.id}-${dashboard.layout.length}`}
+            >
+              {dashboard.layout.map((row, r) => (
+                <GroupPanel key={row.join(",")} id={row.join(",")} index={r} last={r === dashboard.layout.length - 1}>
+                  <ResizablePanelGroup
+                    direction="horizontal"
+                    autoSaveId={`crunchy-dashboard-${dashboard.id}-${row.join(",")}`}
+                  >
+                    {row.map((widgetId, c) => {
+                      const widget = dashboard.widgets[widgetId];
+                      if (!widget) return null;
+                      return (
+                        <GroupPanel key={widgetId} id={widgetId} index={c} last={c === row.length - 1} minSize={15}>
+                          <DashboardWidget
+                            widget={widget}
+                            filters={dashboard.filters}
+                            refreshSeconds={dashboard.refreshSeconds}
+                            onChange={(patch) => updateWidget(dashboard.id, widgetId, patch)}
+                            onMove={(move) => moveWidget(dashboard.id, widgetId, move)}
+                            onRemove={() => removeWidget(dashboard.id, widgetId)}
+                          />
+                        </GroupPanel>
+                      );
+                    })}
+                  </ResizablePanelGroup>
+                </GroupPanel>
+              ))}
+            </ResizablePanelGroup>
+          </div>
+        )}
+
+        {dashboard && (
+          <AddWidgetDialog open={adding} onOpenChange={setAdding} onAdd={(w) => addWidget(dashboard.id, w)} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+// A panel followed by a resize handle unless it is the last one in its group.
+function GroupPanel({
+  id,
+  index,
+  last,
+  minSize = 10,
+  children,
+}: {
+  id: string;
+  index: number;
+  last: boolean;
+  minSize?: number;
+  children: ReactNode;
+}) {
+  return (
+    <>
+      <ResizablePanel id={id} order={index} minSize={minSize}>
+        {children}
+      </ResizablePanel>
+      {!last && <ResizableHandle withHandle />}
+    </>
+  );
+}
+
+export default Dashboards;
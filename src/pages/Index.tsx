@@ -1,10 +1,14 @@
 import { Navbar } from "@/components/Navbar";
 import { UploadPanel } from "@/components/UploadPanel";
 import { QueryView } from "@/components/QueryView";
-import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { tablePath } from "@/utils/queryState";
 
 const Index = () => {
-  const [selectedTable, setSelectedTable] = useState<string | undefined>(undefined);
+  const navigate = useNavigate();
+  // The selected table is part of the URL (/tables/:table) so views can be linked to.
+  const { table: selectedTable } = useParams();
+  const setSelectedTable = (t: string) => navigate(t ? tablePath(t) : "/");
 
   return (
     <div className="min-h-screen bg-background">
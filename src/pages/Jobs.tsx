@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink, Radio, Trash2 } from "lucide-react";
+import { Navbar } from "@/components/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useConfigStore } from "@/store/config";
+import { useJobHistoryStore, type JobRecord } from "@/store/jobHistory";
+import { useCrunchyClient } from "@/hooks/useCrunchyClient";
+import { useUploadStatus } from "@/hooks/useUploadStatus";
+import { errorMessage, TERMINAL_JOB_STATUSES } from "@/utils/api";
+import { formatBytes, formatDuration } from "@/utils/format";
+import { tablePath } from "@/utils/queryState";
+
+function statusVariant(status: string) {
+  if (status === "completed") return "default" as const;
+  if (status === "failed" || status === "error") return "destructive" as const;
+  if (TERMINAL_JOB_STATUSES.has(status)) return "outline" as const;
+  return "secondary" as const;
+}
+
+/** Live progress of a reattached job; updates reach the history through useUploadStatus. */
+function JobLiveStatus({ jobId }: { jobId: string }) {
+  const { status, connection } = useUploadStatus(jobId);
+  const pct = status?.uploaded && status?.total ? Math.round((status.uploaded / status.total) * 100) : undefined;
+  return (
+    <span className="text-xs text-muted-foreground">
+      {connection}
+      {pct !== undefined && ` · ${pct}%`}
+      {status?.rows !== undefined && ` · ${status.rows} rows`}
+    </span>
+  );
+}
+
+const Jobs = () => {
+  const navigate = useNavigate();
+  const { apiBaseUrl, apiKey } = useConfigStore();
+  const client = useCrunchyClient();
+  const { jobs, mergeRemote, removeJob, clear } = useJobHistoryStore();
+  const [attached, setAttached] = useState<Set<string>>(new Set());
+
+  const { data: remote, error } = useQuery({
+    queryKey: ["jobs", apiBaseUrl, apiKey],
+    queryFn: ({ signal }) => client.listJobs({ signal }),
+    enabled: !!apiBaseUrl,
+    refetchInterval: 15_000,
+  });
+
+  useEffect(() => {
+    if (remote?.jobs) mergeRemote(client.baseUrl, remote.jobs);
+  }, [remote, client.baseUrl, mergeRemote]);
+
+  const list = useMemo(
+    () =>
+      Object.values(jobs)
+        .filter((j) => j.baseUrl === client.baseUrl)
+        .sort((a, b) => b.startedAt - a.startedAt),
+    [jobs, client.baseUrl]
+  );
+
+  const toggleAttached = (jobId: string) =>
+    setAttached((prev) => {
+      const next = new Set(prev);
+      if (next.has(jobId)) next.delete(jobId);
+      else next.add(jobId);
+      return next;
+    });
+
+  const duration = (j: JobRecord) => (j.finishedAt ? formatDuration(j.finishedAt - j.startedAt) : "—");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="container mx-auto py-8">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Upload jobs</CardTitle>
+              <CardDescription>
+                Every upload started from this browser, reconciled with the backend's job list.
+              </CardDescription>
+            </div>
+            {list.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => clear(client.baseUrl)}>
+                Clear history
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <p className="mb-3 text-xs text-muted-foreground">
+                Backend job list unavailable ({errorMessage(error)}); showing local history only.
+              </p>
+            )}
+            {list.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No upload jobs yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Rows</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {list.map((j) => {
+                    const running = !TERMINAL_JOB_STATUSES.has(j.status);
+                    return (
+                      <TableRow key={j.jobId}>
+                        <TableCell className="max-w-[240px]">
+                          <div className="truncate font-medium" title={j.fileName}>
+                            {j.fileName}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(j.startedAt).toLocaleString()}
+                          </div>
+                        </TableCell>
+                        <TableCell>{j.size !== undefined ? formatBytes(j.size) : "—"}</TableCell>
+                        <TableCell>{j.table ?? "—"}</TableCell>
+                        <TableCell>{j.rows?.toLocaleString() ?? "—"}</TableCell>
+                        <TableCell>{duration(j)}</TableCell>
+                        <TableCell className="max-w-[260px] space-y-1">
+                          <Badge variant={statusVariant(j.status)}>{j.status}</Badge>
+                          {attached.has(j.jobId) && running && (
+                            <div>
+                              <JobLiveStatus jobId={j.jobId} />
+                            </div>
+                          )}
+                          {j.error && <p className="text-xs text-destructive">{j.error}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {running && (
+                              <Button
+                                variant={attached.has(j.jobId) ? "secondary" : "ghost"}
+                                size="sm"
+                                onClick={() => toggleAttached(j.jobId)}
+                                title="Follow live status"
+                              >
+                                <Radio className="mr-1 h-4 w-4" /> {attached.has(j.jobId) ? "Detach" : "Reattach"}
+                              </Button>
+                            )}
+                            {j.table && j.status === "completed" && (
+                              <Button variant="ghost" size="sm" onClick={() => navigate(tablePath(j.table!))}>
+                                <ExternalLink className="mr-1 h-4 w-4" /> Query
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => removeJob(j.jobId)}
+                              title="Remove from history"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Jobs;
@@ -4,8 +4,14 @@ import { persist } from "zustand/middleware";
 interface ConfigState {
   apiBaseUrl: string;
   apiKey: string;
+  /** How many files the upload queue sends at the same time. */
+  uploadConcurrency: number;
+  /** Keep saved queries in the backend's shared library instead of only this browser. */
+  syncSavedQueries: boolean;
   setApiBaseUrl: (url: string) => void;
   setApiKey: (key: string) => void;
+  setUploadConcurrency: (n: number) => void;
+  setSyncSavedQueries: (on: boolean) => void;
 }
 
 export const useConfigStore = create<ConfigState>()(
@@ -13,8 +19,12 @@ export const useConfigStore = create<ConfigState>()(
     (set) => ({
       apiBaseUrl: "https://your-backend.com",
       apiKey: "",
+      uploadConcurrency: 2,
+      syncSavedQueries: false,
       setApiBaseUrl: (url) => set({ apiBaseUrl: url.trim().replace(/\/?$/, "") }),
       setApiKey: (key) => set({ apiKey: key }),
+      setUploadConcurrency: (n) => set({ uploadConcurrency: Math.min(8, Math.max(1, Math.round(n) || 1)) }),
+      setSyncSavedQueries: (on) => set({ syncSavedQueries: on }),
     }),
     { name: "crunchy-config" }
   )
@@ -0,0 +1,142 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { QueryBody } from "@/utils/api";
+import type { ChartSpec } from "@/utils/chartData";
+import { randomId } from "@/utils/randomId";
+
+export type WidgetKind = "table" | "chart" | "kpi";
+
+export const WIDGET_KINDS: { kind: WidgetKind; label: string }[] = [
+  { kind: "table", label: "Table" },
+  { kind: "chart", label: "Chart" },
+  { kind: "kpi", label: "Single number" },
+];
+
+export interface DashboardWidget {
+  id: string;
+  title: string;
+  kind: WidgetKind;
+  table: string;
+  /** A copy of the query taken when the widget was added. */
+  query: Partial<QueryBody>;
+  /** Chart settings; defaults are picked from the result until set. */
+  chart?: ChartSpec;
+  /** Column shown by a KPI; defaults to the first numeric one. */
+  kpiColumn?: string;
+}
+
+/**
+ * A filter applied to every widget whose table has the column: a range
+ * (dates or numbers, either end open) or a list of accepted values.
+ */
+export type DashboardFilter =
+  | { id: string; type: "range"; column: string; from?: string; to?: string }
+  | { id: string; type: "values"; column: string; values: string[] };
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  widgets: Record<string, DashboardWidget>;
+  /** Widget ids row by row, top to bottom. */
+  layout: string[][];
+  filters: DashboardFilter[];
+  /** Seconds between automatic refreshes; 0 turns them off. */
+  refreshSeconds: number;
+}
+
+export type WidgetMove = "left" | "right" | "up" | "down";
+
+// New widgets fill the last row up to this many before starting another.
+const WIDGETS_PER_ROW = 3;
+
+function withoutEmptyRows(layout: string[][]) {
+  return layout.filter((row) => row.length > 0);
+}
+
+/** Moves a widget within its row, or into the row above or below (a new one past the last). */
+function moveInLayout(layout: string[][], widgetId: string, move: WidgetMove): string[][] {
+  const r = layout.findIndex((row) => row.includes(widgetId));
+  if (r === -1) return layout;
+  const rows = layout.map((row) => [...row]);
+  const c = rows[r].indexOf(widgetId);
+  if (move === "left" || move === "right") {
+    const to = move === "left" ? c - 1 : c + 1;
+    if (to < 0 || to >= rows[r].length) return layout;
+    [rows[r][c], rows[r][to]] = [rows[r][to], rows[r][c]];
+    return rows;
+  }
+  const alone = rows[r].length === 1;
+  if (move === "up") {
+    if (r === 0) return alone ? layout : [[widgetId], ...rows.map((row) => row.filter((id) => id !== widgetId))];
+    rows[r].splice(c, 1);
+    rows[r - 1].push(widgetId);
+  } else {
+    if (r === rows.length - 1) {
+      if (alone) return layout;
+      rows[r].splice(c, 1);
+      rows.push([widgetId]);
+    } else {
+      rows[r].splice(c, 1);
+      rows[r + 1].push(widgetId);
+    }
+  }
+  return withoutEmptyRows(rows);
+}
+
+interface DashboardsState {
+  dashboards: Record<string, Dashboard>;
+  /** Creates an empty dashboard and returns its id. */
+  create: (name: string) => string;
+  update: (id: string, patch: Partial<Pick<Dashboard, "name" | "filters" | "refreshSeconds">>) => void;
+  remove: (id: string) => void;
+  addWidget: (dashboardId: string, widget: Omit<DashboardWidget, "id">) => void;
+  updateWidget: (dashboardId: string, widgetId: string, patch: Partial<Omit<DashboardWidget, "id">>) => void;
+  removeWidget: (dashboardId: string, widgetId: string) => void;
+  moveWidget: (dashboardId: string, widgetId: string, move: WidgetMove) => void;
+}
+
+export const useDashboardsStore = create<DashboardsState>()(
+  persist(
+    (set) => {
+      const edit = (id: string, fn: (d: Dashboard) => Dashboard) =>
+        set((s) => (s.dashboards[id] ? { dashboards: { ...s.dashboards, [id]: fn(s.dashboards[id]) } } : s));
+
+      return {
+        dashboards: {},
+        create: (name) => {
+          const id = randomId();
+          set((s) => ({
+            dashboards: { ...s.dashboards, [id]: { id, name, widgets: {}, layout: [], filters: [], refreshSeconds: 0 } },
+          }));
+          return id;
+        },
+        update: (id, patch) => edit(id, (d) => ({ ...d, ...patch })),
+        remove: (id) =>
+          set((s) => {
+            const { [id]: _removed, ...rest } = s.dashboards;
+            return { dashboards: rest };
+          }),
+        addWidget: (dashboardId, widget) =>
+          edit(dashboardId, (d) => {
+            const id = randomId();
+            const last = d.layout[d.layout.length - 1];
+            const layout =
+              last && last.length < WIDGETS_PER_ROW ? [...d.layout.slice(0, -1), [...last, id]] : [...d.layout, [id]];
+            return { ...d, widgets: { ...d.widgets, [id]: { ...widget, id } }, layout };
+          }),
+        updateWidget: (dashboardId, widgetId, patch) =>
+          edit(dashboardId, (d) =>
+            d.widgets[widgetId] ? { ...d, widgets: { ...d.widgets, [widgetId]: { ...d.widgets[widgetId], ...patch } } } : d
+          ),
+        removeWidget: (dashboardId, widgetId) =>
+          edit(dashboardId, (d) => {
+            const { [widgetId]: _removed, ...widgets } = d.widgets;
+            return { ...d, widgets, layout: withoutEmptyRows(d.layout.map((row) => row.filter((id) => id !== widgetId))) };
+          }),
+        moveWidget: (dashboardId, widgetId, move) =>
+          edit(dashboardId, (d) => ({ ...d, layout: moveInLayout(d.layout, widgetId, move) })),
+      };
+    },
+    { name: "crunchy-dashboards" }
+  )
+);
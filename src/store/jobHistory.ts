@@ -0,0 +1,119 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { TERMINAL_JOB_STATUSES, type JobStatus, type JobSummary } from "@/utils/api";
+
+export interface JobRecord {
+  jobId: string;
+  /** Backend the job ran on; jobs can only be reattached on the same backend. */
+  baseUrl: string;
+  fileName: string;
+  size?: number;
+  table?: string;
+  rows?: number;
+  status: string;
+  error?: string | null;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+interface JobHistoryState {
+  jobs: Record<string, JobRecord>;
+  /** Ids removed from the history per backend, which the backend's job list must not bring back. */
+  dismissed: Record<string, string[]>;
+  addJob: (job: Omit<JobRecord, "status"> & { status?: string }) => void;
+  /** Applies a status update to a known job; unknown jobs are ignored. */
+  recordStatus: (jobId: string, status: JobStatus) => void;
+  /** Reconciles the local log with the backend's job list, which wins on status. Dismissed jobs stay out. */
+  mergeRemote: (baseUrl: string, remote: JobSummary[]) => void;
+  removeJob: (jobId: string) => void;
+  clear: (baseUrl: string) => void;
+}
+
+const MAX_JOBS = 500;
+// Backends keep listing old jobs, so more ids are remembered than jobs are kept.
+const MAX_DISMISSED = 2_000;
+
+function parseTime(iso?: string | null) {
+  const t = iso ? Date.parse(iso) : NaN;
+  return Number.isNaN(t) ? undefined : t;
+}
+
+function withStatus(job: JobRecord, s: JobStatus): JobRecord {
+  const finished = TERMINAL_JOB_STATUSES.has(s.status);
+  return {
+    ...job,
+    status: s.status,
+    rows: s.rows ?? job.rows,
+    table: s.table || job.table,
+    error: s.error ?? job.error,
+    finishedAt: finished ? (job.finishedAt ?? Date.now()) : job.finishedAt,
+  };
+}
+
+function dismiss(dismissed: Record<string, string[]>, baseUrl: string, ids: string[]) {
+  const list = [...(dismissed[baseUrl] ?? []).filter((id) => !ids.includes(id)), ...ids];
+  return { ...dismissed, [baseUrl]: list.slice(-MAX_DISMISSED) };
+}
+
+// Keeps the newest MAX_JOBS entries so localStorage does not grow without bound.
+function prune(jobs: Record<string, JobRecord>) {
+  const list = Object.values(jobs);
+  if (list.length <= MAX_JOBS) return jobs;
+  list.sort((a, b) => b.startedAt - a.startedAt);
+  return Object.fromEntries(list.slice(0, MAX_JOBS).map((j) => [j.jobId, j]));
+}
+
+export const useJobHistoryStore = create<JobHistoryState>()(
+  persist(
+    (set) => ({
+      jobs: {},
+      dismissed: {},
+      addJob: (job) =>
+        set((s) => ({ jobs: prune({ ...s.jobs, [job.jobId]: { status: "pending", ...job } }) })),
+      recordStatus: (jobId, status) =>
+        set((s) => {
+          const job = s.jobs[jobId];
+          return job ? { jobs: { ...s.jobs, [jobId]: withStatus(job, status) } } : s;
+        }),
+      mergeRemote: (baseUrl, remote) =>
+        set((s) => {
+          const jobs = { ...s.jobs };
+          const dismissed = new Set(s.dismissed[baseUrl]);
+          for (const r of remote) {
+            if (dismissed.has(r.job_id)) continue;
+            const local = jobs[r.job_id];
+            const base: JobRecord = local ?? {
+              jobId: r.job_id,
+              baseUrl,
+              fileName: r.file_name ?? r.job_id,
+              size: r.size,
+              status: r.status,
+              startedAt: parseTime(r.created_at) ?? Date.now(),
+            };
+            const merged = withStatus(base, r);
+            jobs[r.job_id] = {
+              ...merged,
+              size: base.size ?? r.size,
+              finishedAt: parseTime(r.finished_at) ?? merged.finishedAt,
+            };
+          }
+          return { jobs: prune(jobs) };
+        }),
+      removeJob: (jobId) =>
+        set((s) => {
+          const { [jobId]: removed, ...rest } = s.jobs;
+          if (!removed) return s;
+          return { jobs: rest, dismissed: dismiss(s.dismissed, removed.baseUrl, [jobId]) };
+        }),
+      clear: (baseUrl) =>
+        set((s) => {
+          const cleared = Object.values(s.jobs).filter((j) => j.baseUrl === baseUrl);
+          return {
+            jobs: Object.fromEntries(Object.entries(s.jobs).filter(([, j]) => j.baseUrl !== baseUrl)),
+            dismissed: dismiss(s.dismissed, baseUrl, cleared.map((j) => j.jobId)),
+          };
+        }),
+    }),
+    { name: "crunchy-job-history" }
+  )
+);
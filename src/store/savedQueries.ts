@@ -0,0 +1,59 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import type { SavedQuery } from "@/utils/api";
+
+export interface SavedQueryRecord extends SavedQuery {
+  /** Whether the backend library holds this version; unsynced records are pushed on the next sync. */
+  synced?: boolean;
+  /** Whether the backend has ever held this query, so deleting it must delete it there too. */
+  shared?: boolean;
+}
+
+interface SavedQueriesState {
+  queries: Record<string, SavedQueryRecord>;
+  upsert: (query: SavedQueryRecord) => void;
+  remove: (id: string) => void;
+  /**
+   * Reconciles with the backend library: the newer version of each query wins,
+   * and synced queries missing remotely were deleted by someone else.
+   */
+  mergeRemote: (remote: SavedQuery[]) => void;
+}
+
+function time(iso: string) {
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? 0 : t;
+}
+
+export const useSavedQueriesStore = create<SavedQueriesState>()(
+  persist(
+    (set) => ({
+      queries: {},
+      upsert: (query) => set((s) => ({ queries: { ...s.queries, [query.id]: query } })),
+      remove: (id) =>
+        set((s) => {
+          const { [id]: _removed, ...rest } = s.queries;
+          return { queries: rest };
+        }),
+      mergeRemote: (remote) =>
+        set((s) => {
+          const remoteIds = new Set(remote.map((q) => q.id));
+          const queries: Record<string, SavedQueryRecord> = {};
+          for (const local of Object.values(s.queries)) {
+            if (local.synced && !remoteIds.has(local.id)) continue;
+            queries[local.id] = local;
+          }
+          for (const r of remote) {
+            const local = queries[r.id];
+            if (!local || time(r.updated_at) >= time(local.updated_at)) {
+              queries[r.id] = { ...r, tags: r.tags ?? [], synced: true, shared: true };
+            } else {
+              queries[r.id] = { ...local, shared: true };
+            }
+          }
+          return { queries };
+        }),
+    }),
+    { name: "crunchy-saved-queries" }
+  )
+);
@@ -0,0 +1,169 @@
+import { create } from "zustand";
+import { errorMessage, isAbortError, type CrunchyClient, type IngestOptions } from "@/utils/api";
+import { startUpload, type UploadProgress } from "@/utils/chunkedUpload";
+import { uploadSessionKey, useUploadSessionsStore } from "@/store/uploadSessions";
+import { useJobHistoryStore } from "@/store/jobHistory";
+import type { PickedFile } from "@/utils/dropFiles";
+
+export type QueueItemState =
+  | "staged"
+  | "queued"
+  | "uploading"
+  | "paused"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface SheetSelection {
+  sheet: string;
+  table: string;
+}
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  /** Relative path inside a dropped folder, or the file name. */
+  path: string;
+  state: QueueItemState;
+  /** Parse settings the user overrode in the preview; sent with the file. */
+  ingest?: IngestOptions;
+  /** Worksheets picked from a staged workbook; each becomes its own job when started. */
+  sheets?: SheetSelection[];
+  progress: UploadProgress | null;
+  jobId?: string;
+  table?: string;
+  error?: string;
+}
+
+interface UploadQueueState {
+  items: QueueItem[];
+  /** Adds files in the "staged" state so they can be previewed before uploading. */
+  enqueue: (files: PickedFile[]) => void;
+  /** Queues every staged item without an {@link ingestProblem}. */
+  startStaged: () => void;
+  update: (id: string, patch: Partial<QueueItem>) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+}
+
+/** Why a staged item cannot be started yet, if anything. */
+export function ingestProblem(ingest?: IngestOptions) {
+  const mode = ingest?.mode ?? "create";
+  if (mode !== "create" && !ingest?.table_name) return `Choose a table to ${mode} into.`;
+  if (mode === "upsert" && !ingest?.key_columns?.length) return "Choose the key columns to upsert on.";
+  return undefined;
+}
+
+export const FINISHED_STATES = new Set<QueueItemState>(["completed", "failed", "cancelled"]);
+
+// AbortControllers are not serializable state, so they live beside the store.
+const controllers = new Map<string, AbortController>();
+let nextId = 0;
+
+export const useUploadQueueStore = create<UploadQueueState>()((set, get) => ({
+  items: [],
+  enqueue: (files) =>
+    set((s) => ({
+      items: [
+        ...s.items,
+        ...files.map(({ file, path }) => ({
+          id: `${Date.now()}-${nextId++}`,
+          file,
+          path,
+          state: "staged" as const,
+          progress: null,
+        })),
+      ],
+    })),
+  startStaged: () =>
+    set((s) => ({
+      items: s.items.flatMap((it): QueueItem[] => {
+        if (it.state !== "staged" || ingestProblem(it.ingest)) return [it];
+        if (!it.sheets?.length) return [{ ...it, state: "queued" }];
+        return it.sheets.map(({ sheet, table }, i) => ({
+          ...it,
+          id: `${it.id}-${i}`,
+          path: `${it.path} › ${sheet}`,
+          state: "queued",
+          sheets: undefined,
+          // Writing into an existing table sends every sheet there; otherwise each sheet gets its own table.
+          ingest: {
+            ...it.ingest,
+            sheet,
+            table_name: (it.ingest?.mode ?? "create") === "create" ? table || undefined : it.ingest?.table_name,
+          },
+        }));
+      }),
+    })),
+  update: (id, patch) => set((s) => ({ items: s.items.map((it) => (it.id === id ? { ...it, ...patch } : it)) })),
+  pause: (id) => {
+    const item = get().items.find((it) => it.id === id);
+    if (!item || (item.state !== "uploading" && item.state !== "queued")) return;
+    // The chunked upload session stays persisted, so resuming continues where it stopped.
+    get().update(id, { state: "paused" });
+    controllers.get(id)?.abort();
+  },
+  resume: (id) => {
+    const item = get().items.find((it) => it.id === id);
+    if (item?.state === "paused") get().update(id, { state: "queued" });
+  },
+  cancel: (id) => {
+    const item = get().items.find((it) => it.id === id);
+    if (!item || FINISHED_STATES.has(item.state) || item.state === "processing") return;
+    if (item.state === "staged") return get().remove(id);
+    get().update(id, { state: "cancelled" });
+    controllers.get(id)?.abort();
+    useUploadSessionsStore.getState().removeSession(uploadSessionKey(item.file, item.ingest?.sheet));
+  },
+  retry: (id) => {
+    const item = get().items.find((it) => it.id === id);
+    if (item?.state === "failed" || item?.state === "cancelled") {
+      get().update(id, { state: "queued", error: undefined, jobId: undefined, progress: null });
+    }
+  },
+  remove: (id) => {
+    controllers.get(id)?.abort();
+    set((s) => ({ items: s.items.filter((it) => it.id !== id) }));
+  },
+  clearFinished: () => set((s) => ({ items: s.items.filter((it) => !FINISHED_STATES.has(it.state)) })),
+}));
+
+/**
+ * Sends the bytes of one queued item. Once the backend has accepted the file
+ * the item moves to "processing" and its job status stream takes over.
+ */
+export async function runQueueItem(client: CrunchyClient, id: string) {
+  const { items, update } = useUploadQueueStore.getState();
+  const item = items.find((it) => it.id === id);
+  if (!item || item.state !== "queued") return;
+
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  update(id, { state: "uploading", error: undefined });
+  try {
+    const { job_id } = await startUpload(client, item.file, {
+      ingest: item.ingest,
+      signal: controller.signal,
+      onProgress: (progress) => update(id, { progress }),
+    });
+    update(id, { state: "processing", jobId: job_id });
+    useJobHistoryStore.getState().addJob({
+      jobId: job_id,
+      baseUrl: client.baseUrl,
+      fileName: item.path,
+      size: item.file.size,
+      table: item.ingest?.table_name,
+      startedAt: Date.now(),
+    });
+  } catch (e) {
+    // Pause and cancel abort the request and have already set the item's state.
+    if (!isAbortError(e)) update(id, { state: "failed", error: errorMessage(e) });
+  } finally {
+    controllers.delete(id);
+  }
+}
@@ -0,0 +1,40 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+export interface StoredUploadSession {
+  uploadId: string;
+  baseUrl: string;
+  chunkSize: number;
+  createdAt: number;
+}
+
+interface UploadSessionsState {
+  /** Keyed by {@link uploadSessionKey}, so re-selecting the same file finds its session. */
+  sessions: Record<string, StoredUploadSession>;
+  saveSession: (key: string, session: StoredUploadSession) => void;
+  removeSession: (key: string) => void;
+}
+
+/**
+ * Identifies a file across page reloads by name, size and modification time.
+ * Each worksheet of a workbook is ingested by its own upload, so it gets its own key.
+ */
+export function uploadSessionKey(file: File, sheet?: string) {
+  const key = `${file.name}:${file.size}:${file.lastModified}`;
+  return sheet ? `${key}#${sheet}` : key;
+}
+
+export const useUploadSessionsStore = create<UploadSessionsState>()(
+  persist(
+    (set) => ({
+      sessions: {},
+      saveSession: (key, session) => set((s) => ({ sessions: { ...s.sessions, [key]: session } })),
+      removeSession: (key) =>
+        set((s) => {
+          const { [key]: _removed, ...rest } = s.sessions;
+          return { sessions: rest };
+        }),
+    }),
+    { name: "crunchy-upload-sessions" }
+  )
+);
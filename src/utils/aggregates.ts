@@ -0,0 +1,111 @@
+import type { Aggregate, AggregateFn, GroupKey, QueryBody, TimeBucket } from "@/utils/api";
+import { isNumericType, type ColumnDataType } from "@/utils/columnTypes";
+
+export const AGGREGATE_FNS: { fn: AggregateFn; label: string }[] = [
+  { fn: "count", label: "Count" },
+  { fn: "count_distinct", label: "Count distinct" },
+  { fn: "sum", label: "Sum" },
+  { fn: "avg", label: "Average" },
+  { fn: "min", label: "Min" },
+  { fn: "max", label: "Max" },
+  { fn: "percentile", label: "Percentile" },
+];
+
+export const TIME_BUCKETS: TimeBucket[] = ["hour", "day", "week", "month", "quarter", "year"];
+
+/** Functions that only make sense on numbers. */
+export const NUMERIC_AGGREGATES = new Set<AggregateFn>(["sum", "avg", "percentile"]);
+
+/** Result column name, e.g. `count`, `sum_revenue`, `p95_latency`. */
+export function aggregateAlias(a: Omit<Aggregate, "alias">) {
+  if (!a.column) return a.fn;
+  const prefix = a.fn === "percentile" ? `p${a.percentile ?? 50}` : a.fn;
+  return `${prefix}_${a.column}`;
+}
+
+/** Human-readable header, e.g. "Sum of revenue". */
+export function aggregateLabel(a: Aggregate) {
+  if (!a.column) return a.fn === "count" ? "Row count" : a.alias;
+  if (a.fn === "percentile") return `p${a.percentile ?? 50} of ${a.column}`;
+  const label = AGGREGATE_FNS.find((f) => f.fn === a.fn)?.label ?? a.fn;
+  return `${label} of ${a.column}`;
+}
+
+/** Type of an aggregate's result, for alignment and formatting. */
+export function aggregateType(a: Aggregate, columnTypes: Record<string, ColumnDataType | undefined>): ColumnDataType | undefined {
+  if (a.fn === "count" || a.fn === "count_distinct") return "integer";
+  const source = a.column ? columnTypes[a.column] : undefined;
+  if (a.fn === "min" || a.fn === "max") return source;
+  return source === "integer" && a.fn === "sum" ? "integer" : "float";
+}
+
+/** An aggregate the backend can run: a column where one is needed and a percentile in range. */
+export function isCompleteAggregate(a: Aggregate) {
+  if (a.fn !== "count" && !a.column) return false;
+  if (a.fn === "percentile") return a.percentile !== undefined && a.percentile >= 0 && a.percentile <= 100;
+  return true;
+}
+
+export function groupKeyLabel(k: GroupKey) {
+  return k.bucket ? `${k.column} (${k.bucket})` : k.column;
+}
+
+/** Result column of a group key. */
+export function groupKeyColumn(k: GroupKey) {
+  return k.alias ?? k.column;
+}
+
+/** Columns of a grouped result: the group keys, then one per aggregate. */
+export function aggregatedColumns(p: Pick<QueryBody, "group_by" | "aggregates">) {
+  return [...(p.group_by ?? []).map(groupKeyColumn), ...(p.aggregates ?? []).map((a) => a.alias)];
+}
+
+/** Column types of a grouped result, with aggregates typed by their function. */
+export function aggregatedColumnTypes(
+  p: Pick<QueryBody, "group_by" | "aggregates">,
+  columnTypes: Record<string, ColumnDataType | undefined>
+) {
+  const types = { ...columnTypes };
+  for (const k of p.group_by ?? []) types[groupKeyColumn(k)] = columnTypes[k.column];
+  for (const a of p.aggregates ?? []) types[a.alias] = aggregateType(a, columnTypes);
+  return types;
+}
+
+/** Headers of a grouped result ("Sum of revenue", "created_at (month)"). */
+export function aggregatedColumnLabels(p: Pick<QueryBody, "group_by" | "aggregates">) {
+  const labels: Record<string, string> = {};
+  for (const k of p.group_by ?? []) labels[groupKeyColumn(k)] = groupKeyLabel(k);
+  for (const a of p.aggregates ?? []) labels[a.alias] = aggregateLabel(a);
+  return labels;
+}
+
+/** Whether an aggregate fits a column of the given type. */
+export function aggregateFits(fn: AggregateFn, type?: ColumnDataType) {
+  return !NUMERIC_AGGREGATES.has(fn) || type === undefined || isNumericType(type);
+}
+
+/** Recomputes every alias, numbering repeats so result columns stay unique. */
+export function withAliases(aggregates: Omit<Aggregate, "alias">[]): Aggregate[] {
+  const seen = new Map<string, number>();
+  return aggregates.map((a) => {
+    const base = aggregateAlias(a);
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    return { ...a, alias: n > 1 ? `${base}_${n}` : base };
+  });
+}
+
+/**
+ * Recomputes group key aliases. A column's first key keeps the column's name;
+ * further keys on it, e.g. by day and by month, get `created_at_month`.
+ */
+export function withGroupAliases(keys: GroupKey[]): GroupKey[] {
+  const taken = new Set<string>();
+  return keys.map(({ alias: _alias, ...k }) => {
+    const base = taken.has(k.column) ? `${k.column}_${k.bucket ?? "value"}` : k.column;
+    let alias = base;
+    for (let n = 2; taken.has(alias); n++) alias = `${base}_${n}`;
+    taken.add(alias);
+    return alias === k.column ? k : { ...k, alias };
+  });
+}
@@ -1,3 +1,5 @@
+import { normalizeDataType, type ColumnDataType } from "@/utils/columnTypes";
+
 export type FilterOp =
   | "eq"
   | "neq"
@@ -12,74 +14,585 @@ export type FilterOp =
   | "is_null"
   | "is_not_null";
 
+export interface FilterCondition {
+  column: string;
+  op: FilterOp;
+  value?: unknown;
+}
+
+/** A nested group of conditions joined by its own operator, optionally negated. */
+export interface FilterGroup {
+  logical_operator: "AND" | "OR";
+  not?: boolean;
+  filters: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface SortKey {
+  column: string;
+  direction: "asc" | "desc";
+  /** Where nulls go; the backend's default when omitted. */
+  nulls?: "first" | "last";
+}
+
+export type AggregateFn = "count" | "count_distinct" | "sum" | "avg" | "min" | "max" | "percentile";
+
+export interface Aggregate {
+  fn: AggregateFn;
+  /** Omitted for a plain row count. */
+  column?: string;
+  /** 0–100, for `percentile`. */
+  percentile?: number;
+  /** Name of the result column. */
+  alias: string;
+}
+
+export type TimeBucket = "hour" | "day" | "week" | "month" | "quarter" | "year";
+
+export interface GroupKey {
+  column: string;
+  /** Truncates date/time values, e.g. to group by month. */
+  bucket?: TimeBucket;
+  /** Name of the result column when the column is grouped more than once; the column name otherwise. */
+  alias?: string;
+}
+
 export interface QueryBody {
-  filters: { column: string; op: FilterOp; value: any }[];
+  /** Flat conditions, or conditions and nested groups (see `serializeFilters`). */
+  filters: FilterNode[];
   logical_operator: "AND" | "OR";
-  order_by?: { column: string; direction: "asc" | "desc" };
+  /** Negates the whole filter. */
+  not?: boolean;
+  /** Sort keys in priority order. */
+  order_by?: SortKey[];
   limit: number;
   offset: number;
   fields?: string[];
+  /** Aggregated queries return one row per group, with the group keys and one column per aggregate. */
+  group_by?: GroupKey[];
+  aggregates?: Aggregate[];
+  /**
+   * "keyset" seeks past `cursor` instead of scanning `offset` rows, which stays
+   * fast deep into large tables; results then carry `next_cursor`.
+   */
+  pagination?: "offset" | "keyset";
+  /** Opaque position from a previous result's `next_cursor`; the first page has none. */
+  cursor?: string;
+}
+
+/** How an upload writes into `table_name`. */
+export type IngestMode = "create" | "append" | "replace" | "upsert";
+
+/** Parse settings sent alongside a file; anything omitted is auto-detected by the backend. */
+export interface IngestOptions {
+  delimiter?: string;
+  /** Empty string disables quoting. */
+  quote_char?: string;
+  encoding?: string;
+  /** Whether the first row holds column names. */
+  header?: boolean;
+  column_types?: Record<string, ColumnDataType>;
+  /** Worksheet to load from an Excel workbook; the first sheet when omitted. */
+  sheet?: string;
+  /**
+   * Table to create ("create", the default) or to write into (other modes).
+   * Defaults to a name derived from the file name.
+   */
+  table_name?: string;
+  mode?: IngestMode;
+  /** Columns identifying a row for "upsert". */
+  key_columns?: string[];
 }
 
-function headers(apiKey?: string) {
-  const h: Record<string, string> = {};
-  if (apiKey) h["x-api-key"] = apiKey;
-  return h;
+/** Server-side state of a chunked upload session. */
+export interface UploadSession {
+  upload_id: string;
+  chunk_size: number;
+  /** Indexes of the chunks the backend has already stored. */
+  received_chunks: number[];
 }
 
-export async function uploadFile(apiBaseUrl: string, apiKey: string | undefined, file: File) {
-  const form = new FormData();
-  form.append("file", file);
-  const res = await fetch(`${apiBaseUrl}/upload`, {
-    method: "POST",
-    headers: headers(apiKey),
-    body: form,
-  });
-  if (!res.ok) throw new Error(`Upload failed (${res.status})`);
-  const data = await res.json();
-  return data as { job_id: string };
+export interface InitUploadRequest {
+  file_name: string;
+  size: number;
+  last_modified: number;
+  chunk_size: number;
+  content_type?: string;
+  options?: IngestOptions;
 }
 
-export async function listTables(apiBaseUrl: string, apiKey?: string) {
-  const res = await fetch(`${apiBaseUrl}/tables`, { headers: headers(apiKey) });
-  if (!res.ok) throw new Error(`Tables fetch failed (${res.status})`);
-  return (await res.json()) as { tables: string[] };
+/** Status of an ingestion job, as pushed over the status WebSocket or returned by GET /jobs/{id}. */
+export interface JobStatus {
+  status: string;
+  uploaded?: number;
+  total?: number;
+  rows?: number;
+  table?: string;
+  error?: string | null;
 }
 
-export async function getColumns(apiBaseUrl: string, apiKey: string | undefined, table: string) {
-  const res = await fetch(`${apiBaseUrl}/tables/${encodeURIComponent(table)}/columns`, {
-    headers: headers(apiKey),
-  });
-  if (!res.ok) throw new Error(`Columns fetch failed (${res.status})`);
-  return (await res.json()) as { columns: string[] };
-}
-
-export async function queryData(
-  apiBaseUrl: string,
-  apiKey: string | undefined,
-  table: string,
-  body: QueryBody
-) {
-  const res = await fetch(`${apiBaseUrl}/tables/${encodeURIComponent(table)}/query`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json", ...headers(apiKey) },
-    body: JSON.stringify(body),
+/** Entry of the backend's job list (GET /jobs). */
+export interface JobSummary extends JobStatus {
+  job_id: string;
+  file_name?: string;
+  size?: number;
+  /** ISO timestamps. */
+  created_at?: string;
+  finished_at?: string | null;
+}
+
+export const TERMINAL_JOB_STATUSES = new Set(["completed", "failed", "error", "cancelled"]);
+
+/** Column metadata reported by GET /tables/{table}/columns. */
+export interface ColumnMeta {
+  name: string;
+  /** Undefined when the backend only reports column names. */
+  data_type?: ColumnDataType;
+  nullable?: boolean;
+  distinct_count?: number;
+  sample_values?: unknown[];
+}
+
+// Older backends answer with bare names, newer ones may say "type" instead of "data_type".
+type RawColumn = string | (Omit<ColumnMeta, "data_type"> & { data_type?: string; type?: string });
+
+function toColumnMeta(raw: RawColumn): ColumnMeta {
+  if (typeof raw === "string") return { name: raw };
+  const { type, data_type, ...rest } = raw;
+  return { ...rest, data_type: normalizeDataType(data_type ?? type) };
+}
+
+export interface DistinctValuesRequest extends Pick<QueryBody, "filters" | "logical_operator" | "not"> {
+  /** Only values containing this text. */
+  search?: string;
+  limit?: number;
+}
+
+export interface DistinctValue {
+  value: unknown;
+  count: number;
+}
+
+/** A named query in the saved queries library; `query` holds the non-default parts of a QueryBody. */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description?: string;
+  tags: string[];
+  table: string;
+  query: Partial<QueryBody>;
+  updated_at: string;
+}
+
+export interface QueryResult {
+  rows: Record<string, unknown>[];
+  total: number;
+  /** Keyset pagination: cursor of the following page, null on the last page. */
+  next_cursor?: string | null;
+}
+
+/**
+ * Error raised for any non-2xx response. Carries the HTTP status, whatever
+ * error payload the backend sent and the request id (when the backend echoes
+ * one), so the UI can show the real server message.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly payload: unknown;
+  readonly requestId?: string;
+
+  constructor(message: string, status: number, payload?: unknown, requestId?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.payload = payload;
+    this.requestId = requestId;
+  }
+
+  /** Network failures and timeouts are reported with status 0. */
+  get isNetworkError() {
+    return this.status === 0;
+  }
+
+  get isRetryable() {
+    return this.status === 0 || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** True when a call was cancelled through its AbortSignal rather than failing. */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+/** Human readable description of an error thrown by the client. */
+export function errorMessage(e: unknown): string {
+  if (e instanceof ApiError) {
+    return e.requestId ? `${e.message} (request ${e.requestId})` : e.message;
+  }
+  if (e instanceof Error) return e.message;
+  return String(e ?? "Unknown error");
+}
+
+export interface CrunchyClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  /** Per-attempt timeout in milliseconds. */
+  timeoutMs?: number;
+  /** Retries for idempotent calls (listTables, getColumns, queryData). */
+  retries?: number;
+  /** Base delay for exponential backoff between retries. */
+  retryDelayMs?: number;
+}
+
+export interface CallOptions {
+  /** Cancels the call, including any pending retries and, for streams, the body. */
+  signal?: AbortSignal;
+}
+
+interface RequestOptions extends CallOptions {
+  method?: string;
+  body?: BodyInit;
+  json?: unknown;
+  headers?: Record<string, string>;
+  /** What to call the request in fallback error messages, e.g. "Query". */
+  label: string;
+  idempotent?: boolean;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const UPLOAD_TIMEOUT_MS = 10 * 60_000;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 300;
+const MAX_RETRY_DELAY_MS = 5_000;
+
+function abortError() {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
-  if (!res.ok) throw new Error(`Query failed (${res.status})`);
-  return (await res.json()) as { rows: any[]; total: number };
-}
-
-export async function streamData(
-  apiBaseUrl: string,
-  apiKey: string | undefined,
-  table: string,
-  body: QueryBody
-) {
-  const res = await fetch(`${apiBaseUrl}/tables/${encodeURIComponent(table)}/stream`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json", ...headers(apiKey) },
-    body: JSON.stringify(body),
+}
+
+/** The same response, calling `settled` once its body is read to the end, fails or is cancelled. */
+function withSettledBody(res: Response, settled: () => void) {
+  if (!res.body) {
+    settled();
+    return res;
+  }
+  const reader = res.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (!done) return controller.enqueue(value);
+        settled();
+        controller.close();
+      } catch (e) {
+        settled();
+        controller.error(e);
+      }
+    },
+    cancel(reason) {
+      settled();
+      return reader.cancel(reason);
+    },
   });
-  if (!res.ok || !res.body) throw new Error(`Stream failed (${res.status})`);
-  return res.body; // ReadableStream<Uint8Array>
+  return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+// Pulls a readable message out of the usual error payload shapes
+// ({ detail }, { error }, { message }, FastAPI validation lists, plain text).
+function messageFromPayload(payload: unknown): string | undefined {
+  if (!payload) return undefined;
+  if (typeof payload === "string") return payload.trim() || undefined;
+  if (typeof payload !== "object") return undefined;
+  const p = payload as Record<string, unknown>;
+  for (const key of ["detail", "error", "message"]) {
+    const v = p[key];
+    if (typeof v === "string" && v) return v;
+    if (Array.isArray(v) && v.length) {
+      return v
+        .map((item) => (typeof item === "object" && item && "msg" in item ? String(item.msg) : String(item)))
+        .join("; ");
+    }
+    if (v && typeof v === "object") {
+      const nested = messageFromPayload(v);
+      if (nested) return nested;
+    }
+  }
+  return undefined;
+}
+
+async function readPayload(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => "");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export class CrunchyClient {
+  readonly baseUrl: string;
+  readonly apiKey?: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  constructor({ baseUrl, apiKey, timeoutMs, retries, retryDelayMs }: CrunchyClientOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey || undefined;
+    this.timeoutMs = timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retries = retries ?? DEFAULT_RETRIES;
+    this.retryDelayMs = retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  headers(extra?: Record<string, string>) {
+    const h: Record<string, string> = { ...extra };
+    if (this.apiKey) h["x-api-key"] = this.apiKey;
+    return h;
+  }
+
+  async uploadFile(file: File, options?: IngestOptions, { signal }: CallOptions = {}) {
+    const form = new FormData();
+    form.append("file", file);
+    if (options) form.append("options", JSON.stringify(options));
+    const res = await this.request("/upload", {
+      method: "POST",
+      body: form,
+      label: "Upload",
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+      signal,
+    });
+    return (await res.json()) as { job_id: string };
+  }
+
+  /** Starts a chunked upload session: init → PUT chunks → complete. */
+  async initUpload(req: InitUploadRequest, { signal }: CallOptions = {}) {
+    const res = await this.request("/uploads", { method: "POST", json: req, label: "Upload init", signal });
+    return (await res.json()) as UploadSession;
+  }
+
+  async getUploadSession(uploadId: string, { signal }: CallOptions = {}) {
+    const res = await this.request(`/uploads/${encodeURIComponent(uploadId)}`, {
+      label: "Upload session fetch",
+      idempotent: true,
+      signal,
+    });
+    return (await res.json()) as UploadSession;
+  }
+
+  /**
+   * Stores one chunk. `start` is the byte offset of the chunk within the file;
+   * re-sending the same chunk is harmless, so failures are retried.
+   */
+  async uploadChunk(
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    start: number,
+    totalSize: number,
+    checksum: string | undefined,
+    { signal }: CallOptions = {}
+  ) {
+    const end = start + chunk.size - 1;
+    await this.request(`/uploads/${encodeURIComponent(uploadId)}/chunks/${index}`, {
+      method: "PUT",
+      body: chunk,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${start}-${end}/${totalSize}`,
+        ...(checksum ? { "X-Chunk-Checksum": `sha256=${checksum}` } : undefined),
+      },
+      label: `Chunk ${index} upload`,
+      idempotent: true,
+      timeoutMs: UPLOAD_TIMEOUT_MS,
+      signal,
+    });
+  }
+
+  /** Assembles the stored chunks and starts the ingestion job. */
+  async completeUpload(uploadId: string, { signal }: CallOptions = {}) {
+    const res = await this.request(`/uploads/${encodeURIComponent(uploadId)}/complete`, {
+      method: "POST",
+      label: "Upload finalize",
+      signal,
+    });
+    return (await res.json()) as { job_id: string };
+  }
+
+  async getJob(jobId: string, { signal }: CallOptions = {}) {
+    const res = await this.request(`/jobs/${encodeURIComponent(jobId)}`, {
+      label: "Job status fetch",
+      idempotent: true,
+      signal,
+    });
+    return (await res.json()) as JobStatus;
+  }
+
+  async listJobs({ signal }: CallOptions = {}) {
+    const res = await this.request("/jobs", { label: "Jobs fetch", idempotent: true, signal });
+    return (await res.json()) as { jobs: JobSummary[] };
+  }
+
+  /** WebSocket URL streaming a job's status; wss:// for https:// backends. */
+  statusSocketUrl(jobId: string) {
+    const base = /^https?:\/\//.test(this.baseUrl) ? this.baseUrl : `${window.location.protocol}//${this.baseUrl}`;
+    return `${base.replace(/^http/, "ws")}/ws/status/${encodeURIComponent(jobId)}`;
+  }
+
+  async listTables({ signal }: CallOptions = {}) {
+    const res = await this.request("/tables", { label: "Tables fetch", idempotent: true, signal });
+    return (await res.json()) as { tables: string[] };
+  }
+
+  async getColumns(table: string, { signal }: CallOptions = {}) {
+    const res = await this.request(`/tables/${encodeURIComponent(table)}/columns`, {
+      label: "Columns fetch",
+      idempotent: true,
+      signal,
+    });
+    const data = (await res.json()) as { columns: RawColumn[] };
+    return { columns: (data.columns ?? []).map(toColumnMeta) };
+  }
+
+  /** Most frequent values of `column` among the rows matching `req.filters`. */
+  async getDistinctValues(table: string, column: string, req: DistinctValuesRequest, { signal }: CallOptions = {}) {
+    const res = await this.request(
+      `/tables/${encodeURIComponent(table)}/columns/${encodeURIComponent(column)}/distinct`,
+      { method: "POST", json: req, label: "Distinct values fetch", idempotent: true, signal }
+    );
+    return (await res.json()) as { values: DistinctValue[] };
+  }
+
+  /** The team's shared saved queries library. */
+  async listSavedQueries({ signal }: CallOptions = {}) {
+    const res = await this.request("/saved-queries", { label: "Saved queries fetch", idempotent: true, signal });
+    return (await res.json()) as { queries: SavedQuery[] };
+  }
+
+  /** Creates or replaces a saved query by id. */
+  async putSavedQuery(query: SavedQuery, { signal }: CallOptions = {}) {
+    const res = await this.request(`/saved-queries/${encodeURIComponent(query.id)}`, {
+      method: "PUT",
+      json: query,
+      label: "Saved query save",
+      idempotent: true,
+      signal,
+    });
+    return (await res.json()) as SavedQuery;
+  }
+
+  async deleteSavedQuery(id: string, { signal }: CallOptions = {}) {
+    await this.request(`/saved-queries/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      label: "Saved query delete",
+      idempotent: true,
+      signal,
+    });
+  }
+
+  async queryData(table: string, body: QueryBody, { signal }: CallOptions = {}) {
+    const res = await this.request(`/tables/${encodeURIComponent(table)}/query`, {
+      method: "POST",
+      json: body,
+      label: "Query",
+      idempotent: true,
+      signal,
+    });
+    return (await res.json()) as QueryResult;
+  }
+
+  /** Every matching row as NDJSON, so the body takes no page window. */
+  async streamData(table: string, body: Omit<QueryBody, "limit" | "offset">, { signal }: CallOptions = {}) {
+    const res = await this.request(`/tables/${encodeURIComponent(table)}/stream`, {
+      method: "POST",
+      json: body,
+      label: "Stream",
+      signal,
+    });
+    if (!res.body) throw new ApiError("Stream failed: empty response body", res.status);
+    return res.body; // ReadableStream<Uint8Array>
+  }
+
+  private async request(path: string, opts: RequestOptions): Promise<Response> {
+    const attempts = opts.idempotent ? this.retries + 1 : 1;
+    let lastError: ApiError | undefined;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        const backoff = Math.min(MAX_RETRY_DELAY_MS, this.retryDelayMs * 2 ** (attempt - 1));
+        await sleep(backoff / 2 + Math.random() * (backoff / 2), opts.signal);
+      }
+      try {
+        return await this.attempt(path, opts);
+      } catch (e) {
+        if (!(e instanceof ApiError) || !e.isRetryable) throw e;
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  private async attempt(path: string, opts: RequestOptions): Promise<Response> {
+    if (opts.signal?.aborted) throw abortError();
+    const controller = new AbortController();
+    const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    // Forwarded for the lifetime of the response so that aborting also cancels a streamed body,
+    // then removed so a long-lived caller signal does not collect listeners.
+    const forward = () => controller.abort();
+    const release = () => opts.signal?.removeEventListener("abort", forward);
+    opts.signal?.addEventListener("abort", forward, { once: true });
+    const headers = this.headers({
+      ...(opts.json !== undefined ? { "Content-Type": "application/json" } : undefined),
+      ...opts.headers,
+    });
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, {
+        method: opts.method ?? "GET",
+        headers,
+        body: opts.json !== undefined ? JSON.stringify(opts.json) : opts.body,
+        signal: controller.signal,
+      });
+    } catch (e) {
+      release();
+      if (timedOut) {
+        throw new ApiError(`${opts.label} timed out after ${Math.round(timeoutMs / 1000)}s`, 0);
+      }
+      if (opts.signal?.aborted) throw abortError();
+      throw new ApiError(`${opts.label} failed: ${e instanceof Error ? e.message : "network error"}`, 0);
+    } finally {
+      // The timeout only guards the time to response headers; streamed bodies may take longer.
+      clearTimeout(timer);
+    }
+
+    if (!res.ok) {
+      release();
+      const payload = await readPayload(res);
+      const requestId = res.headers.get("x-request-id") ?? undefined;
+      const message = messageFromPayload(payload) ?? `${opts.label} failed (${res.status})`;
+      throw new ApiError(message, res.status, payload, requestId);
+    }
+    return opts.signal ? withSettledBody(res, release) : res;
+  }
 }
@@ -0,0 +1,134 @@
+import { inferColumnType, isNumericType, isTemporalType, type ColumnDataType } from "@/utils/columnTypes";
+
+export type ChartKind = "bar" | "line" | "area" | "scatter" | "pie";
+
+export const CHART_KINDS: ChartKind[] = ["bar", "line", "area", "scatter", "pie"];
+
+export const CHART_KIND_LABELS: Record<ChartKind, string> = {
+  bar: "Bar",
+  line: "Line",
+  area: "Area",
+  scatter: "Scatter",
+  pie: "Pie",
+};
+
+type Row = Record<string, unknown>;
+
+// Charts beyond this many categories or series become unreadable (and slow to render).
+export const MAX_POINTS = 2_000;
+/** Also the size of the chart palette (`--chart-1` … `--chart-12`), so no two series share a colour. */
+export const MAX_SERIES = 12;
+
+const SAMPLE = 50;
+
+function sampleType(rows: Row[], column: string): ColumnDataType | undefined {
+  const values = rows
+    .slice(0, SAMPLE)
+    .map((r) => r[column])
+    .filter((v) => v !== null && v !== undefined && v !== "");
+  if (!values.length) return undefined;
+  if (values.every((v) => typeof v === "number")) return values.every(Number.isInteger) ? "integer" : "float";
+  return inferColumnType(values.map(String));
+}
+
+/** Declared type of a result column, or one inferred from its values. */
+export function resultColumnType(rows: Row[], column: string, declared?: ColumnDataType) {
+  return declared ?? sampleType(rows, column);
+}
+
+export function isNumericColumn(rows: Row[], column: string, declared?: ColumnDataType) {
+  return isNumericType(resultColumnType(rows, column, declared));
+}
+
+/** The first date/time column, which makes a natural x axis. */
+export function detectTimeColumn(columns: string[], rows: Row[], types: Record<string, ColumnDataType | undefined> = {}) {
+  return columns.find((c) => isTemporalType(resultColumnType(rows, c, types[c])));
+}
+
+export interface ChartSpec {
+  kind: ChartKind;
+  x: string;
+  ys: string[];
+  /** Splits the first y column into one series per distinct value of this column. */
+  series?: string;
+  /** Sorts points by x, for time axes. */
+  sortX?: boolean;
+}
+
+export interface ChartData {
+  data: Row[];
+  /** Plotted keys (`s0`, `s1`, …; safe for CSS variable names) with their labels. */
+  series: { key: string; label: string }[];
+  truncated: boolean;
+}
+
+function toNumber(v: unknown) {
+  if (typeof v === "number") return v;
+  const n = Number(v);
+  return v === null || v === undefined || v === "" || Number.isNaN(n) ? null : n;
+}
+
+/**
+ * A starting chart for a result: a time (or the first label) column on x and
+ * the first measure on y, as a line chart over time and bars otherwise.
+ */
+export function defaultChartSpec(
+  columns: string[],
+  rows: Row[],
+  types: Record<string, ColumnDataType | undefined> = {}
+): ChartSpec {
+  const numeric = columns.filter((c) => isNumericColumn(rows, c, types[c]));
+  const time = detectTimeColumn(columns, rows, types);
+  const x = time ?? columns.find((c) => !numeric.includes(c)) ?? columns[0] ?? "";
+  return { kind: time ? "line" : "bar", x, ys: numeric.filter((c) => c !== x).slice(0, 1) };
+}
+
+/**
+ * Reshapes result rows into recharts data: one object per x value, one key per series.
+ * `labels` names the y columns in the legend; split series are named by their value.
+ */
+export function buildChartData(rows: Row[], spec: ChartSpec, labels: Record<string, string> = {}): ChartData {
+  const truncated = rows.length > MAX_POINTS;
+  const source = truncated ? rows.slice(0, MAX_POINTS) : rows;
+  let data: Row[];
+  let series: ChartData["series"];
+
+  if (spec.series && spec.ys.length) {
+    const y = spec.ys[0];
+    const keys = new Map<string, string>();
+    const byX = new Map<string, Row>();
+    for (const r of source) {
+      const label = String(r[spec.series] ?? "∅");
+      if (!keys.has(label)) {
+        if (keys.size >= MAX_SERIES) continue;
+        keys.set(label, `s${keys.size}`);
+      }
+      const xv = String(r[spec.x] ?? "");
+      const point = byX.get(xv) ?? { x: r[spec.x] ?? "" };
+      point[keys.get(label)!] = toNumber(r[y]);
+      byX.set(xv, point);
+    }
+    data = [...byX.values()];
+    series = [...keys].map(([label, key]) => ({ key, label }));
+  } else {
+    data = source.map((r) => {
+      const point: Row = { x: r[spec.x] ?? "" };
+      spec.ys.forEach((y, i) => (point[`s${i}`] = toNumber(r[y])));
+      return point;
+    });
+    series = spec.ys.map((y, i) => ({ key: `s${i}`, label: labels[y] ?? y }));
+  }
+
+  if (spec.sortX) {
+    const time = (v: unknown) => (typeof v === "number" ? v : Date.parse(String(v)));
+    data.sort((a, b) => time(a.x) - time(b.x));
+  }
+  return { data, series, truncated };
+}
+
+/** Pie slices: the first values, with any beyond MAX_SERIES summed into an "Other" slice. */
+export function pieSlices(data: Row[], key: string): Row[] {
+  if (data.length <= MAX_SERIES) return data;
+  const rest = data.slice(MAX_SERIES - 1).reduce((sum, d) => sum + (typeof d[key] === "number" ? d[key] : 0), 0);
+  return [...data.slice(0, MAX_SERIES - 1), { x: "Other", [key]: rest }];
+}
@@ -0,0 +1,108 @@
+// recharts colours and fonts come from CSS (variables, Tailwind classes), which a
+// standalone SVG file does not have; they are copied onto the elements instead.
+const STYLE_PROPS = ["fill", "stroke", "stroke-width", "stroke-dasharray", "opacity", "font-family", "font-size", "font-weight"];
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const LEGEND_HEIGHT = 28;
+
+export interface LegendEntry {
+  label: string;
+  /** Any CSS colour, including `var(...)` references resolved against the chart. */
+  color: string;
+}
+
+function resolveColor(container: HTMLElement, color: string) {
+  const probe = document.createElement("span");
+  probe.style.color = color;
+  container.appendChild(probe);
+  const resolved = getComputedStyle(probe).color;
+  probe.remove();
+  return resolved;
+}
+
+// recharts draws its legend in HTML, so it is redrawn as SVG below the plot.
+function drawLegend(svg: SVGSVGElement, container: HTMLElement, legend: LegendEntry[], top: number) {
+  const g = document.createElementNS(SVG_NS, "g");
+  const textColor = getComputedStyle(container).color;
+  let x = 8;
+  for (const entry of legend) {
+    const swatch = document.createElementNS(SVG_NS, "rect");
+    swatch.setAttribute("x", String(x));
+    swatch.setAttribute("y", String(top + 9));
+    swatch.setAttribute("width", "10");
+    swatch.setAttribute("height", "10");
+    swatch.setAttribute("fill", resolveColor(container, entry.color));
+    const text = document.createElementNS(SVG_NS, "text");
+    text.setAttribute("x", String(x + 14));
+    text.setAttribute("y", String(top + 18));
+    text.setAttribute("font-size", "12");
+    text.setAttribute("font-family", getComputedStyle(container).fontFamily);
+    text.setAttribute("fill", textColor);
+    text.textContent = entry.label;
+    g.append(swatch, text);
+    x += 14 + entry.label.length * 7 + 16;
+  }
+  svg.appendChild(g);
+}
+
+/** Serializes the chart's SVG with its computed styles inlined, plus an optional legend. */
+export function chartToSvg(container: HTMLElement, legend: LegendEntry[] = []) {
+  const source = container.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!source) throw new Error("No chart to export");
+  const { width, height: plotHeight } = source.getBoundingClientRect();
+  const height = plotHeight + (legend.length ? LEGEND_HEIGHT : 0);
+  const clone = source.cloneNode(true) as SVGSVGElement;
+
+  const originals = [source, ...source.querySelectorAll("*")];
+  const copies = [clone, ...clone.querySelectorAll("*")];
+  originals.forEach((el, i) => {
+    const computed = getComputedStyle(el);
+    for (const prop of STYLE_PROPS) {
+      const value = computed.getPropertyValue(prop);
+      if (value) (copies[i] as SVGElement).style.setProperty(prop, value);
+    }
+  });
+
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", resolveColor(container, "hsl(var(--background))"));
+  clone.insertBefore(background, clone.firstChild);
+  if (legend.length) drawLegend(clone, container, legend, plotHeight);
+
+  return { svg: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+export function chartToSvgBlob(container: HTMLElement, legend?: LegendEntry[]) {
+  return new Blob([chartToSvg(container, legend).svg], { type: "image/svg+xml" });
+}
+
+/** Renders the chart to a PNG at `scale` times its on-screen size. */
+export async function chartToPngBlob(container: HTMLElement, legend?: LegendEntry[], scale = 2): Promise<Blob> {
+  const { svg, width, height } = chartToSvg(container, legend);
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Could not render the chart image"));
+      img.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the PNG"))), "image/png")
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,123 @@
+import { ApiError, type CrunchyClient, type IngestOptions, type UploadSession } from "@/utils/api";
+import { uploadSessionKey, useUploadSessionsStore } from "@/store/uploadSessions";
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Files up to this size are sent in a single request. */
+export const CHUNKED_UPLOAD_THRESHOLD = DEFAULT_CHUNK_SIZE;
+
+export interface UploadProgress {
+  sentBytes: number;
+  totalBytes: number;
+  /** Bytes skipped because a previous session had already stored them. */
+  resumedBytes: number;
+}
+
+export interface UploadOptions {
+  /** Parse settings forwarded to the backend with the file. */
+  ingest?: IngestOptions;
+  chunkSize?: number;
+  onProgress?: (p: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+async function sha256Hex(blob: Blob): Promise<string | undefined> {
+  // SubtleCrypto is only available in secure contexts; the checksum is optional for the backend.
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Returns the persisted session for `file` if one exists for this backend. */
+export function findResumableSession(file: File, baseUrl: string, sheet?: string) {
+  const saved = useUploadSessionsStore.getState().sessions[uploadSessionKey(file, sheet)];
+  return saved && saved.baseUrl === baseUrl ? saved : undefined;
+}
+
+async function openSession(
+  client: CrunchyClient,
+  file: File,
+  chunkSize: number,
+  ingest: IngestOptions | undefined,
+  signal?: AbortSignal
+) {
+  const key = uploadSessionKey(file, ingest?.sheet);
+  const { saveSession, removeSession } = useUploadSessionsStore.getState();
+  const saved = findResumableSession(file, client.baseUrl, ingest?.sheet);
+  if (saved) {
+    try {
+      return await client.getUploadSession(saved.uploadId, { signal });
+    } catch (e) {
+      // The backend expired or never finished creating the session: start over.
+      if (!(e instanceof ApiError) || (e.status !== 404 && e.status !== 410)) throw e;
+      removeSession(key);
+    }
+  }
+  const session = await client.initUpload(
+    {
+      file_name: file.name,
+      size: file.size,
+      last_modified: file.lastModified,
+      chunk_size: chunkSize,
+      content_type: file.type || undefined,
+      options: ingest,
+    },
+    { signal }
+  );
+  saveSession(key, {
+    uploadId: session.upload_id,
+    baseUrl: client.baseUrl,
+    chunkSize: session.chunk_size || chunkSize,
+    createdAt: Date.now(),
+  });
+  return session;
+}
+
+/**
+ * Uploads `file` through the chunked protocol, skipping chunks a previous
+ * session already stored. The session is kept in localStorage until the
+ * upload completes, so a reload followed by re-selecting the file resumes it.
+ */
+export async function uploadInChunks(client: CrunchyClient, file: File, opts: UploadOptions = {}) {
+  const { signal, onProgress } = opts;
+  const session: UploadSession = await openSession(
+    client,
+    file,
+    opts.chunkSize ?? DEFAULT_CHUNK_SIZE,
+    opts.ingest,
+    signal
+  );
+  const chunkSize = session.chunk_size || opts.chunkSize || DEFAULT_CHUNK_SIZE;
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const received = new Set(session.received_chunks ?? []);
+
+  let sentBytes = 0;
+  for (const index of received) {
+    if (index < chunkCount) sentBytes += Math.min(chunkSize, file.size - index * chunkSize);
+  }
+  const resumedBytes = sentBytes;
+  onProgress?.({ sentBytes, totalBytes: file.size, resumedBytes });
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.has(index)) continue;
+    const start = index * chunkSize;
+    const chunk = file.slice(start, Math.min(file.size, start + chunkSize));
+    const checksum = await sha256Hex(chunk);
+    await client.uploadChunk(session.upload_id, index, chunk, start, file.size, checksum, { signal });
+    sentBytes += chunk.size;
+    onProgress?.({ sentBytes, totalBytes: file.size, resumedBytes });
+  }
+
+  const result = await client.completeUpload(session.upload_id, { signal });
+  useUploadSessionsStore.getState().removeSession(uploadSessionKey(file, opts.ingest?.sheet));
+  return result;
+}
+
+/** Uploads small files in one request and large ones in resumable chunks. */
+export async function startUpload(client: CrunchyClient, file: File, opts: UploadOptions = {}) {
+  if (file.size > CHUNKED_UPLOAD_THRESHOLD) return uploadInChunks(client, file, opts);
+  opts.onProgress?.({ sentBytes: 0, totalBytes: file.size, resumedBytes: 0 });
+  const result = await client.uploadFile(file, opts.ingest, { signal: opts.signal });
+  opts.onProgress?.({ sentBytes: file.size, totalBytes: file.size, resumedBytes: 0 });
+  return result;
+}
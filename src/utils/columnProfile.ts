@@ -0,0 +1,157 @@
+import type { Aggregate, ColumnMeta, QueryBody } from "@/utils/api";
+import { resultColumnType } from "@/utils/chartData";
+import { isNumericType, isTemporalType, type ColumnDataType } from "@/utils/columnTypes";
+
+type Row = Record<string, unknown>;
+
+/** Rows scanned when the backend cannot aggregate, and for histograms. */
+export const SAMPLE_ROWS = 5_000;
+export const TOP_VALUES = 5;
+const HISTOGRAM_BINS = 20;
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  type?: ColumnDataType;
+  /** The backend did not declare a type; it was inferred from sample values. */
+  inferred: boolean;
+  rows: number;
+  nulls: number;
+  distinct?: number;
+  min?: unknown;
+  max?: unknown;
+  mean?: number;
+  top: ValueCount[];
+  /** Counts per equal-width bin, for numeric and date columns. */
+  histogram: number[];
+}
+
+/** Exact per-column statistics from the backend. */
+export type ColumnStats = Pick<ColumnProfile, "rows" | "nulls" | "distinct" | "min" | "max" | "mean">;
+
+const hasRange = (type?: ColumnDataType) => isNumericType(type) || isTemporalType(type);
+const isNull = (v: unknown) => v === null || v === undefined;
+
+/**
+ * One aggregate query for the whole table: the row count, and per column the
+ * non-null count (`count` of a column skips nulls), distinct count, range and mean.
+ */
+export function profileStatsBody(columns: ColumnMeta[]): QueryBody {
+  const aggregates: Aggregate[] = [{ fn: "count", alias: "rows" }];
+  columns.forEach((c, i) => {
+    aggregates.push({ fn: "count", column: c.name, alias: `c${i}_count` });
+    aggregates.push({ fn: "count_distinct", column: c.name, alias: `c${i}_distinct` });
+    if (hasRange(c.data_type)) {
+      aggregates.push({ fn: "min", column: c.name, alias: `c${i}_min` });
+      aggregates.push({ fn: "max", column: c.name, alias: `c${i}_max` });
+    }
+    if (isNumericType(c.data_type)) aggregates.push({ fn: "avg", column: c.name, alias: `c${i}_avg` });
+  });
+  return { filters: [], logical_operator: "AND", aggregates, limit: 1, offset: 0 };
+}
+
+const num = (v: unknown) => (isNull(v) ? undefined : Number(v));
+
+/**
+ * A backend that ignores `aggregates` answers with ordinary rows; throwing on the
+ * missing aliases lets the sample stand in rather than reporting zeros as exact.
+ */
+export function readProfileStats(row: Row | undefined, columns: ColumnMeta[]): Record<string, ColumnStats> {
+  const aliases = ["rows", ...columns.flatMap((_, i) => [`c${i}_count`, `c${i}_distinct`])];
+  if (!row || aliases.some((a) => !(a in row))) throw new Error("The backend did not return the profile aggregates");
+  const rows = Number(row.rows);
+  const out: Record<string, ColumnStats> = {};
+  columns.forEach((c, i) => {
+    const count = num(row[`c${i}_count`]);
+    out[c.name] = {
+      rows,
+      nulls: count === undefined ? 0 : rows - count,
+      distinct: num(row[`c${i}_distinct`]),
+      min: row[`c${i}_min`] ?? undefined,
+      max: row[`c${i}_max`] ?? undefined,
+      mean: num(row[`c${i}_avg`]),
+    };
+  });
+  return out;
+}
+
+/** The most frequent values of a column, with their counts. */
+export function topValuesBody(column: string): QueryBody {
+  return {
+    filters: [],
+    logical_operator: "AND",
+    group_by: [{ column }],
+    aggregates: [{ fn: "count", alias: "value_count" }],
+    order_by: [{ column: "value_count", direction: "desc" }],
+    limit: TOP_VALUES,
+    offset: 0,
+  };
+}
+
+export function readTopValues(rows: Row[], column: string): ValueCount[] {
+  if (rows.some((r) => !("value_count" in r))) throw new Error("The backend did not return value counts");
+  return rows.map((r) => ({ value: r[column], count: Number(r.value_count) }));
+}
+
+function histogram(values: number[]) {
+  if (!values.length) return [];
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const v of values) {
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  const bins = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const width = (hi - lo) / HISTOGRAM_BINS || 1;
+  for (const v of values) bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - lo) / width))]++;
+  return bins;
+}
+
+/** Profiles a column from sample rows; counts are only exact when the sample is the whole table. */
+export function profileFromSample(rows: Row[], column: ColumnMeta): ColumnProfile {
+  const type = resultColumnType(rows, column.name, column.data_type);
+  const values = rows.map((r) => r[column.name]).filter((v) => !isNull(v));
+
+  const counts = new Map<string, ValueCount>();
+  for (const v of values) {
+    const key = String(v);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value: v, count: 1 });
+  }
+  const top = [...counts.values()].sort((a, b) => b.count - a.count).slice(0, TOP_VALUES);
+
+  const profile: ColumnProfile = {
+    column: column.name,
+    type,
+    inferred: !column.data_type && type !== undefined,
+    rows: rows.length,
+    nulls: rows.length - values.length,
+    distinct: counts.size,
+    top,
+    histogram: [],
+  };
+  if (!hasRange(type)) return profile;
+
+  // Dates are ranked by timestamp but reported as the original values.
+  const toNumber = isTemporalType(type) ? (v: unknown) => Date.parse(String(v)) : Number;
+  const ranked = values.map((v) => [toNumber(v), v] as const).filter(([n]) => Number.isFinite(n));
+  if (!ranked.length) return profile;
+  let min = ranked[0];
+  let max = ranked[0];
+  let sum = 0;
+  for (const r of ranked) {
+    if (r[0] < min[0]) min = r;
+    if (r[0] > max[0]) max = r;
+    sum += r[0];
+  }
+  profile.min = min[1];
+  profile.max = max[1];
+  if (isNumericType(type)) profile.mean = sum / ranked.length;
+  profile.histogram = histogram(ranked.map(([n]) => n));
+  return profile;
+}
@@ -0,0 +1,79 @@
+export type ColumnDataType = "string" | "integer" | "float" | "boolean" | "date" | "datetime";
+
+export const COLUMN_DATA_TYPES: ColumnDataType[] = ["string", "integer", "float", "boolean", "date", "datetime"];
+
+const INTEGER_RE = /^[+-]?\d+$/;
+const FLOAT_RE = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN_RE = /^(true|false)$/i;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Leading zeros ("00123") mark identifiers such as ZIP codes, which must stay strings.
+function hasLeadingZero(v: string) {
+  return /^[+-]?0\d/.test(v);
+}
+
+/** Infers the narrowest type that fits every non-empty sample value. */
+export function inferColumnType(values: string[]): ColumnDataType {
+  const samples = values.map((v) => v.trim()).filter((v) => v.length > 0);
+  if (!samples.length) return "string";
+  if (samples.every((v) => BOOLEAN_RE.test(v))) return "boolean";
+  if (samples.some(hasLeadingZero)) return "string";
+  if (samples.every((v) => INTEGER_RE.test(v))) return "integer";
+  if (samples.every((v) => FLOAT_RE.test(v))) return "float";
+  if (samples.every((v) => DATE_RE.test(v))) return "date";
+  if (samples.every((v) => DATE_RE.test(v) || DATETIME_RE.test(v))) return "datetime";
+  return "string";
+}
+
+// Maps the type names backends commonly report (SQL, pandas, Arrow) onto ours.
+const TYPE_ALIASES: [RegExp, ColumnDataType][] = [
+  [/^(bool|boolean)$/, "boolean"],
+  [/^(u?int\d*|integer|bigint|smallint|tinyint|hugeint|long|short)$/, "integer"],
+  [/^(float\d*|double|real|decimal.*|numeric.*|number)$/, "float"],
+  [/^date$/, "date"],
+  [/^(datetime.*|timestamp.*|time)$/, "datetime"],
+  [/^(string|str|text|varchar.*|char.*|object|utf8|uuid|json)$/, "string"],
+];
+
+/** Normalizes a backend type name; undefined when the backend did not report one. */
+export function normalizeDataType(raw?: string | null): ColumnDataType | undefined {
+  if (!raw) return undefined;
+  const t = raw.trim().toLowerCase().replace(/\s+/g, "");
+  return TYPE_ALIASES.find(([re]) => re.test(t))?.[1] ?? "string";
+}
+
+export function isNumericType(type?: ColumnDataType) {
+  return type === "integer" || type === "float";
+}
+
+export function isTemporalType(type?: ColumnDataType) {
+  return type === "date" || type === "datetime";
+}
+
+/**
+ * Converts a filter value typed by the user into the column's declared type.
+ * Columns without a declared type (older backends) fall back to inference.
+ */
+export function coerceValue(raw: string, type?: ColumnDataType): unknown {
+  const v = raw.trim();
+  const effective = type ?? inferColumnType([v]);
+  switch (effective) {
+    case "integer": {
+      // Past 2^53 a number would silently change the value; the backend gets the digits instead.
+      const n = Number(v);
+      if (Number.isInteger(n) && !Number.isSafeInteger(n)) return v;
+      return v !== "" && Number.isFinite(n) ? n : v;
+    }
+    case "float": {
+      const n = Number(v);
+      return v !== "" && Number.isFinite(n) ? n : v;
+    }
+    case "boolean":
+      if (/^(true|1|yes)$/i.test(v)) return true;
+      if (/^(false|0|no)$/i.test(v)) return false;
+      return v;
+    default:
+      return v;
+  }
+}
@@ -0,0 +1,57 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { DashboardFilter } from "@/store/dashboards";
+import type { FilterCondition, FilterNode, QueryBody } from "@/utils/api";
+import { coerceValue, type ColumnDataType } from "@/utils/columnTypes";
+import { DEFAULT_LIMIT } from "@/utils/queryState";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The conditions a dashboard's filters add to a widget on a table with the
+ * given columns; filters on columns the table lacks do not apply to it.
+ */
+export function dashboardConditions(
+  filters: DashboardFilter[],
+  columnTypes: Record<string, ColumnDataType | undefined>
+): FilterCondition[] {
+  const out: FilterCondition[] = [];
+  for (const f of filters) {
+    if (!f.column || !(f.column in columnTypes)) continue;
+    const type = columnTypes[f.column];
+    if (f.type === "values") {
+      const values = f.values.map((v) => coerceValue(v, type));
+      if (values.length === 1) out.push({ column: f.column, op: "eq", value: values[0] });
+      else if (values.length) out.push({ column: f.column, op: "in", value: values });
+      continue;
+    }
+    if (f.from) out.push({ column: f.column, op: "gte", value: coerceValue(f.from, type) });
+    if (f.to) {
+      // A date-only end includes that whole day of a timestamp column.
+      if (type === "datetime" && DATE_ONLY.test(f.to)) {
+        out.push({ column: f.column, op: "lt", value: format(addDays(parseISO(f.to), 1), "yyyy-MM-dd") });
+      } else {
+        out.push({ column: f.column, op: "lte", value: coerceValue(f.to, type) });
+      }
+    }
+  }
+  return out;
+}
+
+/** A widget's query with the dashboard's conditions ANDed onto its own filters, as a first page. */
+export function withDashboardFilters(query: Partial<QueryBody>, conditions: FilterCondition[]): QueryBody {
+  const own: FilterNode[] = query.filters ?? [];
+  const logical_operator = query.logical_operator ?? "AND";
+  const body: QueryBody = {
+    ...query,
+    filters: own,
+    logical_operator,
+    limit: query.limit ?? DEFAULT_LIMIT,
+    offset: query.offset ?? 0,
+    cursor: undefined,
+  };
+  if (!conditions.length) return body;
+  // The widget's own filter joins the dashboard's as one node unless it is already a plain AND.
+  let merged = own;
+  if ((logical_operator !== "AND" || query.not) && own.length) merged = [{ logical_operator, not: query.not, filters: own }];
+  return { ...body, filters: [...merged, ...conditions], logical_operator: "AND", not: undefined };
+}
@@ -0,0 +1,10 @@
+/** Saves a blob as a file through a temporary link. */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Revoking right away can cancel the download in some browsers.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
@@ -0,0 +1,48 @@
+/** Extensions the backend can ingest. */
+export const ACCEPTED_FILE_PATTERN = /\.(csv|xlsx|xls)$/i;
+
+export interface PickedFile {
+  file: File;
+  /** Path relative to the dropped folder, or just the file name. */
+  path: string;
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walk(entry: FileSystemEntry, out: PickedFile[]) {
+  if (entry.isFile) {
+    if (ACCEPTED_FILE_PATTERN.test(entry.name)) {
+      out.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, "") });
+    }
+    return;
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns at most ~100 entries per call; keep reading until it returns none.
+    for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) {
+      for (const child of batch) await walk(child, out);
+    }
+  }
+}
+
+/** Collects accepted files from a drop, descending into dropped folders. */
+export async function filesFromDataTransfer(dt: DataTransfer): Promise<PickedFile[]> {
+  // Entries must be taken synchronously: the DataTransfer is emptied once the drop handler returns.
+  const entries = Array.from(dt.items ?? [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+  if (!entries.length) {
+    return Array.from(dt.files ?? [])
+      .filter((f) => ACCEPTED_FILE_PATTERN.test(f.name))
+      .map((file) => ({ file, path: file.name }));
+  }
+  const out: PickedFile[] = [];
+  for (const entry of entries) await walk(entry, out);
+  return out;
+}
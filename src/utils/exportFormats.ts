@@ -0,0 +1,278 @@
+import * as XLSX from "xlsx";
+import { ByteWriter, ParquetWriter, schemaFromColumnData, type BasicType, type ColumnSource } from "hyparquet-writer";
+import { resultColumnType } from "@/utils/chartData";
+import type { ColumnDataType } from "@/utils/columnTypes";
+
+export type ExportFormat = "csv" | "tsv" | "json" | "ndjson" | "xlsx" | "parquet";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** CSV only; TSV always uses tabs. */
+  delimiter: string;
+  /** Quote character for CSV and TSV fields. */
+  quote: string;
+  /** Quote every field rather than only those that need it. */
+  quoteAll: boolean;
+  /** Write a header row of column names (CSV, TSV). */
+  header: boolean;
+  /** Start text files with a byte order mark so Excel reads them as UTF-8. */
+  bom: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: "csv",
+  delimiter: ",",
+  quote: '"',
+  quoteAll: false,
+  header: true,
+  bom: true,
+};
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { format: "tsv", label: "TSV", extension: "tsv", mime: "text/tab-separated-values" },
+  { format: "json", label: "JSON array", extension: "json", mime: "application/json" },
+  { format: "ndjson", label: "NDJSON", extension: "ndjson", mime: "application/x-ndjson" },
+  {
+    format: "xlsx",
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  { format: "parquet", label: "Parquet", extension: "parquet", mime: "application/vnd.apache.parquet" },
+];
+
+export function exportFormatInfo(format: ExportFormat) {
+  return EXPORT_FORMATS.find((f) => f.format === format) ?? EXPORT_FORMATS[0];
+}
+
+/** The columns to write and their declared types; without columns they are taken from the first rows. */
+export interface ExportSchema {
+  columns?: string[];
+  columnTypes?: Record<string, ColumnDataType | undefined>;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Turns batches of rows into output bytes. Text formats emit as they go;
+ * XLSX can only be written whole and keeps its rows until `finish`.
+ */
+export interface RowEncoder {
+  write(rows: Row[]): Uint8Array[];
+  finish(): Uint8Array[];
+}
+
+// One more than this is the sheet's row limit, less the header.
+export const MAX_XLSX_ROWS = 1_048_575;
+const PARQUET_ROW_GROUP = 10_000;
+const BOM = "﻿";
+
+const text = new TextEncoder();
+
+function columnsOf(rows: Row[]) {
+  const seen = new Set<string>();
+  for (const r of rows) for (const k of Object.keys(r)) seen.add(k);
+  return [...seen];
+}
+
+function plain(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+}
+
+function delimitedEncoder(options: ExportOptions, schema: ExportSchema): RowEncoder {
+  const delimiter = options.format === "tsv" ? "\t" : options.delimiter || ",";
+  const { quote, quoteAll } = options;
+  let columns = schema.columns;
+  let started = false;
+
+  const field = (v: unknown) => {
+    const s = plain(v);
+    const needsQuote =
+      quoteAll || s.includes(delimiter) || s.includes(quote) || /[\r\n]/.test(s) || s !== s.trim();
+    return needsQuote ? quote + s.split(quote).join(quote + quote) + quote : s;
+  };
+  const line = (values: unknown[]) => values.map(field).join(delimiter) + "\r\n";
+
+  return {
+    write(rows) {
+      if (!rows.length) return [];
+      let out = "";
+      if (!started) {
+        started = true;
+        columns ??= columnsOf(rows);
+        if (options.bom) out += BOM;
+        if (options.header) out += line(columns);
+      }
+      for (const r of rows) out += line(columns!.map((c) => r[c]));
+      return [text.encode(out)];
+    },
+    finish() {
+      // An empty result still gets its header.
+      if (started) return [];
+      const head = (options.bom ? BOM : "") + (options.header && columns ? line(columns) : "");
+      return head ? [text.encode(head)] : [];
+    },
+  };
+}
+
+function jsonEncoder(schema: ExportSchema): RowEncoder {
+  let first = true;
+  const pick = (r: Row) => (schema.columns ? Object.fromEntries(schema.columns.map((c) => [c, r[c] ?? null])) : r);
+  return {
+    write(rows) {
+      if (!rows.length) return [];
+      let out = "";
+      for (const r of rows) {
+        out += (first ? "[\n" : ",\n") + JSON.stringify(pick(r));
+        first = false;
+      }
+      return [text.encode(out)];
+    },
+    finish: () => [text.encode(first ? "[]\n" : "\n]\n")],
+  };
+}
+
+function ndjsonEncoder(): RowEncoder {
+  return {
+    write: (rows) => (rows.length ? [text.encode(rows.map((r) => JSON.stringify(r) + "\n").join(""))] : []),
+    finish: () => [],
+  };
+}
+
+function xlsxEncoder(schema: ExportSchema): RowEncoder {
+  let columns = schema.columns;
+  const sheetRows: unknown[][] = [];
+  const cell = (v: unknown) => (v !== null && typeof v === "object" ? JSON.stringify(v) : (v ?? null));
+  return {
+    write(rows) {
+      if (!rows.length) return [];
+      columns ??= columnsOf(rows);
+      if (sheetRows.length + rows.length > MAX_XLSX_ROWS) {
+        throw new Error(`Excel sheets hold at most ${MAX_XLSX_ROWS.toLocaleString()} rows; export as CSV or Parquet instead`);
+      }
+      for (const r of rows) sheetRows.push(columns.map((c) => cell(r[c])));
+      return [];
+    },
+    finish() {
+      const sheet = XLSX.utils.aoa_to_sheet([columns ?? [], ...sheetRows]);
+      const book = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(book, sheet, "Export");
+      const buffer: ArrayBuffer = XLSX.write(book, { type: "array", bookType: "xlsx" });
+      return [new Uint8Array(buffer)];
+    },
+  };
+}
+
+/** Hands out what has been written so far, so a file never sits in one buffer. */
+class ChunkWriter extends ByteWriter {
+  private chunks: Uint8Array[] = [];
+
+  flush() {
+    if (!this.index) return;
+    this.chunks.push(new Uint8Array(this.buffer.slice(0, this.index)));
+    this.index = 0;
+  }
+
+  take() {
+    this.flush();
+    const out = this.chunks;
+    this.chunks = [];
+    return out;
+  }
+}
+
+const PARQUET_TYPES: Record<ColumnDataType, BasicType> = {
+  integer: "INT64",
+  float: "DOUBLE",
+  boolean: "BOOLEAN",
+  datetime: "TIMESTAMP",
+  date: "STRING",
+  string: "STRING",
+};
+
+// Values that do not fit the column's type are written as nulls rather than failing the export.
+function parquetValue(v: unknown, type: BasicType): unknown {
+  if (v === null || v === undefined || v === "") return null;
+  switch (type) {
+    case "INT64": {
+      const n = Number(v);
+      return Number.isSafeInteger(n) ? BigInt(n) : null;
+    }
+    case "DOUBLE": {
+      const n = Number(v);
+      return Number.isFinite(n) ? n : null;
+    }
+    case "BOOLEAN":
+      return typeof v === "boolean" ? v : v === "true" ? true : v === "false" ? false : null;
+    case "TIMESTAMP": {
+      const d = new Date(v as string | number);
+      return Number.isNaN(d.getTime()) ? null : d;
+    }
+    default:
+      return plain(v);
+  }
+}
+
+function parquetEncoder(schema: ExportSchema): RowEncoder {
+  const writer = new ChunkWriter();
+  let parquet: ParquetWriter | undefined;
+  let columns: { name: string; type: BasicType }[] = [];
+  let pending: Row[] = [];
+
+  // The schema is fixed by the first rows: declared types where known, otherwise inferred from the values.
+  const start = (sample: Row[]) => {
+    const names = schema.columns ?? columnsOf(sample);
+    columns = names.map((name) => {
+      const type = resultColumnType(sample, name, schema.columnTypes?.[name]);
+      return { name, type: type ? PARQUET_TYPES[type] : "STRING" };
+    });
+    const empty: ColumnSource[] = columns.map((c) => ({ name: c.name, data: [], type: c.type }));
+    parquet = new ParquetWriter({ writer, schema: schemaFromColumnData({ columnData: empty }) });
+  };
+
+  const writeGroup = (rows: Row[]) => {
+    if (!parquet) start(rows);
+    if (!rows.length) return;
+    const columnData = columns.map((c) => ({
+      name: c.name,
+      type: c.type,
+      data: rows.map((r) => parquetValue(r[c.name], c.type)),
+    })) as ColumnSource[];
+    parquet!.write({ columnData, rowGroupSize: PARQUET_ROW_GROUP });
+  };
+
+  return {
+    write(rows) {
+      pending.push(...rows);
+      while (pending.length >= PARQUET_ROW_GROUP) {
+        writeGroup(pending.slice(0, PARQUET_ROW_GROUP));
+        pending = pending.slice(PARQUET_ROW_GROUP);
+      }
+      return writer.take();
+    },
+    finish() {
+      writeGroup(pending);
+      pending = [];
+      parquet!.finish();
+      return writer.take();
+    },
+  };
+}
+
+export function createEncoder(options: ExportOptions, schema: ExportSchema = {}): RowEncoder {
+  switch (options.format) {
+    case "csv":
+    case "tsv":
+      return delimitedEncoder(options, schema);
+    case "json":
+      return jsonEncoder(schema);
+    case "ndjson":
+      return ndjsonEncoder();
+    case "xlsx":
+      return xlsxEncoder(schema);
+    case "parquet":
+      return parquetEncoder(schema);
+  }
+}
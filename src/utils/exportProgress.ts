@@ -0,0 +1,76 @@
+export interface ExportProgress {
+  rows: number;
+  /** Bytes written to the sink. */
+  bytes: number;
+  /** Rows the result is expected to hold, when known. */
+  expected?: number;
+  rowsPerSecond: number;
+  /** Undefined until there is a rate to go by or when the total is unknown. */
+  etaSeconds?: number;
+}
+
+// The rate covers the last few seconds so the ETA follows changes in pace.
+const RATE_WINDOW_MS = 5_000;
+
+/** Turns running row and byte counts into throughput and time remaining. */
+export class ProgressMeter {
+  private samples: { at: number; rows: number }[] = [];
+  private bytes = 0;
+  private rows = 0;
+
+  constructor(private expected?: number) {}
+
+  addBytes(n: number) {
+    this.bytes += n;
+  }
+
+  setRows(rows: number, now = performance.now()) {
+    this.rows = rows;
+    this.samples.push({ at: now, rows });
+    while (this.samples.length > 2 && now - this.samples[1].at > RATE_WINDOW_MS) this.samples.shift();
+  }
+
+  snapshot(): ExportProgress {
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const elapsed = first && last ? (last.at - first.at) / 1000 : 0;
+    const rowsPerSecond = elapsed > 0 ? (last.rows - first.rows) / elapsed : 0;
+    const remaining = this.expected !== undefined ? this.expected - this.rows : -1;
+    return {
+      rows: this.rows,
+      bytes: this.bytes,
+      expected: this.expected,
+      rowsPerSecond,
+      etaSeconds: remaining >= 0 && rowsPerSecond > 0 ? remaining / rowsPerSecond : undefined,
+    };
+  }
+}
+
+function formatBytes(n: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i++;
+  }
+  return `${n.toFixed(i ? 1 : 0)} ${units[i]}`;
+}
+
+function formatDuration(seconds: number) {
+  const s = Math.ceil(seconds);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor((s % 3600) / 60)}m`;
+}
+
+/** "1,234 of 10,000 rows · 2.1 MB · 5,000 rows/s · about 2s left" */
+export function describeProgress(p: ExportProgress) {
+  const rows =
+    p.expected !== undefined
+      ? `${p.rows.toLocaleString()} of ${p.expected.toLocaleString()} rows`
+      : `${p.rows.toLocaleString()} rows`;
+  const parts = [rows, formatBytes(p.bytes)];
+  if (p.rowsPerSecond > 0) parts.push(`${Math.round(p.rowsPerSecond).toLocaleString()} rows/s`);
+  if (p.etaSeconds !== undefined) parts.push(`about ${formatDuration(p.etaSeconds)} left`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,155 @@
+import { downloadBlob } from "@/utils/download";
+
+/** Where an export's bytes go. `write` resolves once the sink can take more, which paces the export. */
+export interface ExportSink {
+  /** "file" writes through a save dialog, "download" streams to the downloads folder, "memory" buffers a blob. */
+  kind: "file" | "download" | "memory";
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  /** Discards what was written so far. */
+  abort(): Promise<void>;
+}
+
+export interface SinkTarget {
+  fileName: string;
+  mime: string;
+  /** Shown in the save dialog's file type list. */
+  description: string;
+}
+
+// Not yet part of TypeScript's DOM types.
+interface SaveFilePicker {
+  showSaveFilePicker(options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }): Promise<FileSystemFileHandle>;
+}
+
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}export-sw.js`;
+// An outdated or broken worker may never answer; the export then falls back to memory.
+const SERVICE_WORKER_READY_MS = 5_000;
+
+function cancelled() {
+  return new DOMException("The export was cancelled.", "AbortError");
+}
+
+async function fileSink({ fileName, mime, description }: SinkTarget): Promise<ExportSink> {
+  const extension = fileName.slice(fileName.lastIndexOf("."));
+  const handle = await (window as unknown as SaveFilePicker).showSaveFilePicker({
+    suggestedName: fileName,
+    types: [{ description, accept: { [mime]: [extension] } }],
+  });
+  const writable = await handle.createWritable();
+  return {
+    kind: "file",
+    write: (chunk) => writable.write(chunk),
+    close: () => writable.close(),
+    abort: () => writable.abort(),
+  };
+}
+
+function activeWorker(registration: ServiceWorkerRegistration) {
+  if (registration.active) return Promise.resolve(registration.active);
+  const worker = registration.installing ?? registration.waiting;
+  return new Promise<ServiceWorker>((resolve, reject) => {
+    if (!worker) return reject(new Error("Export service worker did not install"));
+    worker.addEventListener("statechange", () => {
+      if (worker.state === "activated") resolve(worker);
+      else if (worker.state === "redundant") reject(new Error("Export service worker did not install"));
+    });
+  });
+}
+
+/** Streams through public/export-sw.js, which answers a hidden frame's request with the bytes as they come. */
+async function downloadSink({ fileName, mime }: SinkTarget): Promise<ExportSink> {
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const worker = await activeWorker(registration);
+  const id = crypto.randomUUID();
+  const { port1: port, port2 } = new MessageChannel();
+
+  // The worker asks for one chunk each time the download has room.
+  let credits = 0;
+  let stopped = false;
+  let wake: (() => void) | undefined;
+  const ready = new Promise<void>((resolve) => {
+    port.onmessage = ({ data }) => {
+      if (data.type === "ready") resolve();
+      else if (data.type === "pull") credits++;
+      else if (data.type === "cancel") stopped = true;
+      wake?.();
+      wake = undefined;
+    };
+  });
+  worker.postMessage({ type: "export", id, fileName, mime }, [port2]);
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => reject(new Error("Export service worker did not answer")), SERVICE_WORKER_READY_MS);
+  });
+  try {
+    await Promise.race([ready, timeout]);
+  } catch (e) {
+    port.close();
+    throw e;
+  } finally {
+    window.clearTimeout(timer);
+  }
+
+  const frame = document.createElement("iframe");
+  frame.hidden = true;
+  frame.src = new URL(`__export__/${id}`, registration.scope).href;
+  document.body.appendChild(frame);
+  // Removing the frame too early can cancel the download.
+  const removeFrame = () => window.setTimeout(() => frame.remove(), 60_000);
+
+  return {
+    kind: "download",
+    async write(chunk) {
+      while (!credits && !stopped) await new Promise<void>((resolve) => (wake = resolve));
+      // Cancelled from the browser's download list.
+      if (stopped) throw cancelled();
+      credits--;
+      port.postMessage({ type: "chunk", chunk }, [chunk.buffer]);
+    },
+    async close() {
+      port.postMessage({ type: "close" });
+      port.close();
+      removeFrame();
+    },
+    async abort() {
+      stopped = true;
+      wake?.();
+      port.postMessage({ type: "abort" });
+      port.close();
+      frame.remove();
+    },
+  };
+}
+
+/** Last resort: holds the whole file in memory and saves it at the end. */
+function memorySink({ fileName, mime }: SinkTarget): ExportSink {
+  let chunks: Uint8Array[] = [];
+  return {
+    kind: "memory",
+    write: async (chunk) => void chunks.push(chunk),
+    close: async () => downloadBlob(new Blob(chunks, { type: mime }), fileName),
+    abort: async () => void (chunks = []),
+  };
+}
+
+/**
+ * Opens the best sink the browser offers: a file chosen in a save dialog, then a
+ * streamed download, then an in-memory blob. Must be called straight from a user
+ * gesture, before any other await, or the save dialog is refused. Rejects with an
+ * AbortError when the user dismisses the dialog.
+ */
+export async function openExportSink(target: SinkTarget): Promise<ExportSink> {
+  if ("showSaveFilePicker" in window) return fileSink(target);
+  if ("serviceWorker" in navigator && window.isSecureContext) {
+    try {
+      return await downloadSink(target);
+    } catch {
+      // Blocked or failed to install; fall through.
+    }
+  }
+  return memorySink(target);
+}
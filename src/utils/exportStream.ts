@@ -0,0 +1,163 @@
+import { createEncoder, type ExportOptions, type ExportSchema, type RowEncoder } from "@/utils/exportFormats";
+import { LineSplitter } from "@/utils/ndjson";
+
+export interface ConvertedChunk {
+  chunks: Uint8Array[];
+  /** Rows converted so far. */
+  rows: number;
+}
+
+/** NDJSON bytes in, output file bytes out. Runs in the export worker, or inline where workers are unavailable. */
+export class ExportConverter {
+  private lines = new LineSplitter();
+  private encoder: RowEncoder;
+  private rows = 0;
+
+  constructor(options: ExportOptions, schema: ExportSchema) {
+    this.encoder = createEncoder(options, schema);
+  }
+
+  push(chunk: Uint8Array): ConvertedChunk {
+    return { chunks: this.encode(this.lines.push(chunk)), rows: this.rows };
+  }
+
+  finish(): ConvertedChunk {
+    const chunks = this.encode(this.lines.flush());
+    return { chunks: [...chunks, ...this.encoder.finish()], rows: this.rows };
+  }
+
+  private encode(lines: string[]) {
+    const rows = lines.map((line) => {
+      this.rows++;
+      try {
+        return JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        throw new Error(`Row ${this.rows} of the stream is not valid JSON`);
+      }
+    });
+    return this.encoder.write(rows);
+  }
+}
+
+export type ExportWorkerRequest =
+  | { type: "start"; options: ExportOptions; schema: ExportSchema }
+  | { type: "chunk"; chunk: Uint8Array }
+  | { type: "end" };
+
+export type ExportWorkerResponse = ({ type: "output" } & ConvertedChunk) | { type: "error"; message: string };
+
+/** Converts chunk by chunk, in a worker when possible so large exports keep the page responsive. */
+interface Converter {
+  push(chunk: Uint8Array): Promise<ConvertedChunk>;
+  finish(): Promise<ConvertedChunk>;
+  close(): void;
+}
+
+function inlineConverter(options: ExportOptions, schema: ExportSchema): Converter {
+  const converter = new ExportConverter(options, schema);
+  return {
+    push: async (chunk) => converter.push(chunk),
+    finish: async () => converter.finish(),
+    close: () => {},
+  };
+}
+
+/** Resolves once the worker has loaded and accepted the export; rejects with its error otherwise. */
+async function workerConverter(options: ExportOptions, schema: ExportSchema): Promise<Converter> {
+  const worker = new Worker(new URL("./exportWorker.ts", import.meta.url), { type: "module" });
+  let pending: { resolve: (c: ConvertedChunk) => void; reject: (e: Error) => void } | undefined;
+  // A failure with no request waiting is kept for the next one rather than lost.
+  let failure: Error | undefined;
+  const fail = (error: Error) => {
+    failure ??= error;
+    pending?.reject(error);
+    pending = undefined;
+  };
+  worker.onmessage = (e: MessageEvent<ExportWorkerResponse>) => {
+    if (e.data.type === "error") return fail(new Error(e.data.message));
+    pending?.resolve(e.data);
+    pending = undefined;
+  };
+  // Also fires when the worker script fails to load, which `new Worker` does not throw for.
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(new Error(e.message || "Export worker failed to start"));
+  };
+  // One request at a time: the next chunk is read only once the last is converted, which bounds memory.
+  const call = (msg: ExportWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<ConvertedChunk>((resolve, reject) => {
+      if (failure) return reject(failure);
+      pending = { resolve, reject };
+      worker.postMessage(msg, transfer);
+    });
+  try {
+    await call({ type: "start", options, schema });
+  } catch (e) {
+    worker.terminate();
+    throw e;
+  }
+  return {
+    push: (chunk) => call({ type: "chunk", chunk }, [chunk.buffer]),
+    finish: () => call({ type: "end" }),
+    close: () => worker.terminate(),
+  };
+}
+
+// Where the worker cannot start, conversion runs on the page; an error in the options then resurfaces there.
+async function createConverter(options: ExportOptions, schema: ExportSchema): Promise<Converter> {
+  if (typeof Worker === "undefined") return inlineConverter(options, schema);
+  try {
+    return await workerConverter(options, schema);
+  } catch {
+    return inlineConverter(options, schema);
+  }
+}
+
+export interface ConvertStreamArgs {
+  stream: ReadableStream<Uint8Array>;
+  options: ExportOptions;
+  schema?: ExportSchema;
+  /** Receives output in order; a returned promise is awaited before reading on. */
+  onOutput: (chunk: Uint8Array) => void | Promise<void>;
+  onProgress?: (progress: { rows: number; bytesIn: number }) => void;
+  signal?: AbortSignal;
+}
+
+/** Converts an NDJSON stream into the chosen format. Resolves with the number of rows written. */
+export async function convertStream({ stream, options, schema = {}, onOutput, onProgress, signal }: ConvertStreamArgs) {
+  const reader = stream.getReader();
+  let converter: Converter;
+  try {
+    converter = await createConverter(options, schema);
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+  const abort = () => reader.cancel().catch(() => {});
+  signal?.addEventListener("abort", abort);
+  let bytesIn = 0;
+  const emit = async ({ chunks, rows }: ConvertedChunk) => {
+    for (const c of chunks) await onOutput(c);
+    onProgress?.({ rows, bytesIn });
+    return rows;
+  };
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      signal?.throwIfAborted();
+      if (done) break;
+      if (!value?.byteLength) continue;
+      bytesIn += value.byteLength;
+      await emit(await converter.push(value));
+    }
+    return await emit(await converter.finish());
+  } catch (e) {
+    // Otherwise the response keeps downloading after a failed conversion.
+    await reader.cancel(e).catch(() => {});
+    throw e;
+  } finally {
+    signal?.removeEventListener("abort", abort);
+    converter.close();
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,25 @@
+import { ExportConverter, type ExportWorkerRequest, type ExportWorkerResponse } from "@/utils/exportStream";
+import { errorMessage } from "@/utils/api";
+
+let converter: ExportConverter | undefined;
+
+function reply(msg: ExportWorkerResponse) {
+  const transfer = msg.type === "output" ? msg.chunks.map((c) => c.buffer) : [];
+  self.postMessage(msg, { transfer });
+}
+
+self.onmessage = (e: MessageEvent<ExportWorkerRequest>) => {
+  const msg = e.data;
+  try {
+    if (msg.type === "start") {
+      converter = new ExportConverter(msg.options, msg.schema);
+      // Acknowledged so the page knows the worker is running before it sends data.
+      reply({ type: "output", chunks: [], rows: 0 });
+      return;
+    }
+    if (!converter) throw new Error("The export worker was not started");
+    reply({ type: "output", ...(msg.type === "chunk" ? converter.push(msg.chunk) : converter.finish()) });
+  } catch (err) {
+    reply({ type: "error", message: errorMessage(err) });
+  }
+};
@@ -0,0 +1,190 @@
+import * as XLSX from "xlsx";
+import type { IngestOptions } from "@/utils/api";
+import { inferColumnType, type ColumnDataType } from "@/utils/columnTypes";
+
+export const PREVIEW_ROWS = 50;
+// Enough for PREVIEW_ROWS of even very wide rows without reading the whole file.
+const PREVIEW_BYTES = 512 * 1024;
+
+export const DELIMITERS = [",", ";", "\t", "|"];
+export const QUOTE_CHARS = ['"', "'"];
+export const ENCODINGS = ["utf-8", "utf-16le", "utf-16be", "windows-1252", "iso-8859-1"];
+
+export interface FilePreview {
+  kind: "csv" | "excel";
+  columns: string[];
+  rows: Record<string, string>[];
+  /** Detected parse settings with any overrides applied. */
+  settings: Required<Pick<IngestOptions, "delimiter" | "quote_char" | "encoding" | "header">>;
+  columnTypes: Record<string, ColumnDataType>;
+}
+
+export function isExcelFile(file: File) {
+  return /\.xlsx?$/i.test(file.name);
+}
+
+function detectEncoding(bytes: Uint8Array) {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample.
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/** RFC 4180 style parser. Drops the trailing row unless `complete`, since the sample may cut it off. */
+export function parseCsv(text: string, delimiter: string, quote: string, maxRows: number, complete: boolean) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (quote && ch === quote && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (complete && rows.length < maxRows && (field !== "" || row.length)) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+function sniffDelimiter(text: string, quote: string) {
+  let best = ",";
+  let bestScore = -1;
+  for (const d of DELIMITERS) {
+    const counts = parseCsv(text, d, quote, 20, false).map((r) => r.length - 1);
+    if (!counts.length) continue;
+    const freq = new Map<number, number>();
+    counts.forEach((c) => freq.set(c, (freq.get(c) ?? 0) + 1));
+    const [mode, modeCount] = [...freq.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (mode === 0) continue;
+    // Prefer delimiters that split every line the same way, then those producing more columns.
+    const score = (modeCount / counts.length) * 1000 + mode;
+    if (score > bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function sniffQuoteChar(text: string) {
+  const count = (q: string) => (text.match(new RegExp(`(^|[,;\\t|])${q}`, "gm")) ?? []).length;
+  return count("'") > count('"') ? "'" : '"';
+}
+
+function detectHeader(rows: string[][]) {
+  const first = rows[0];
+  if (!first?.length) return false;
+  const values = first.map((v) => v.trim());
+  return (
+    values.every((v) => v.length > 0) &&
+    new Set(values).size === values.length &&
+    values.every((v) => inferColumnType([v]) === "string")
+  );
+}
+
+function toPreview(kind: FilePreview["kind"], table: string[][], settings: FilePreview["settings"]): FilePreview {
+  const width = table.reduce((w, r) => Math.max(w, r.length), 0);
+  const names: string[] = [];
+  for (let i = 0; i < width; i++) {
+    const base = (settings.header ? table[0]?.[i]?.trim() : "") || `column_${i + 1}`;
+    let name = base;
+    for (let n = 2; names.includes(name); n++) name = `${base}_${n}`;
+    names.push(name);
+  }
+  const body = settings.header ? table.slice(1) : table;
+  const rows = body.map((r) => Object.fromEntries(names.map((c, i) => [c, r[i] ?? ""])));
+  const columnTypes = Object.fromEntries(names.map((c, i) => [c, inferColumnType(body.map((r) => r[i] ?? ""))]));
+  return { kind, columns: names, rows, settings, columnTypes };
+}
+
+// Workbooks have to be read whole, so each file is parsed once and shared by the sheet list
+// and every preview; only the first rows of each sheet are kept.
+const workbooks = new WeakMap<File, Promise<XLSX.WorkBook>>();
+
+function readWorkbook(file: File) {
+  let wb = workbooks.get(file);
+  if (!wb) {
+    wb = file.arrayBuffer().then((buf) => XLSX.read(buf, { type: "array", sheetRows: PREVIEW_ROWS + 1 }));
+    // A failed read is not kept, so a retry reads the file again.
+    wb.catch(() => workbooks.delete(file));
+    workbooks.set(file, wb);
+  }
+  return wb;
+}
+
+/** Lists the worksheets of a workbook. */
+export async function listSheets(file: File) {
+  return (await readWorkbook(file)).SheetNames;
+}
+
+async function previewExcel(file: File, overrides: IngestOptions): Promise<FilePreview> {
+  const wb = await readWorkbook(file);
+  const name = overrides.sheet && wb.SheetNames.includes(overrides.sheet) ? overrides.sheet : wb.SheetNames[0];
+  const sheet = wb.Sheets[name];
+  const table = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "" });
+  return toPreview("excel", table, {
+    delimiter: "",
+    quote_char: "",
+    encoding: "",
+    header: overrides.header ?? detectHeader(table),
+  });
+}
+
+async function previewCsv(file: File, overrides: IngestOptions): Promise<FilePreview> {
+  const bytes = new Uint8Array(await file.slice(0, PREVIEW_BYTES).arrayBuffer());
+  const complete = file.size <= PREVIEW_BYTES;
+  const encoding = overrides.encoding ?? detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  const quote_char = overrides.quote_char ?? sniffQuoteChar(text);
+  const delimiter = overrides.delimiter ?? sniffDelimiter(text, quote_char);
+  const table = parseCsv(text, delimiter, quote_char, PREVIEW_ROWS + 1, complete);
+  const header = overrides.header ?? detectHeader(table);
+  return toPreview("csv", table, { delimiter, quote_char, encoding, header });
+}
+
+/** Parses the first rows of a file locally and detects how it should be ingested. */
+export async function previewFile(file: File, overrides: IngestOptions = {}): Promise<FilePreview> {
+  const preview = isExcelFile(file) ? await previewExcel(file, overrides) : await previewCsv(file, overrides);
+  if (overrides.column_types) {
+    for (const [col, type] of Object.entries(overrides.column_types)) {
+      if (col in preview.columnTypes) preview.columnTypes[col] = type;
+    }
+  }
+  return preview;
+}
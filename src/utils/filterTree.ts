@@ -0,0 +1,239 @@
+import type { FilterCondition, FilterGroup, FilterNode, FilterOp, QueryBody } from "@/utils/api";
+import { coerceValue, type ColumnDataType } from "@/utils/columnTypes";
+
+export const FILTER_OPS: FilterOp[] = [
+  "eq",
+  "neq",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "like",
+  "in",
+  "between",
+  "in_range",
+  "is_null",
+  "is_not_null",
+];
+
+export const NO_VALUE_OPS = new Set<FilterOp>(["is_null", "is_not_null"]);
+export const ARRAY_VALUE_OPS = new Set<FilterOp>(["in", "in_range"]);
+
+/**
+ * Value of a filter row as edited: text as typed for scalar ops (dates as
+ * ISO strings), a boolean for boolean columns, a list for `in`/`in_range`
+ * and a `[low, high]` pair for `between`.
+ */
+export type DraftValue = string | boolean | string[];
+
+/** A filter row as edited in the query builder, before values are coerced. */
+export interface ConditionDraft {
+  kind: "condition";
+  id: string;
+  column?: string;
+  op: FilterOp;
+  value?: DraftValue;
+}
+
+export interface GroupDraft {
+  kind: "group";
+  id: string;
+  logical: "AND" | "OR";
+  not: boolean;
+  collapsed?: boolean;
+  children: DraftNode[];
+}
+
+export type DraftNode = ConditionDraft | GroupDraft;
+
+let nextId = 0;
+const newId = () => `f${++nextId}`;
+
+export function emptyCondition(): ConditionDraft {
+  return { kind: "condition", id: newId(), op: "eq" };
+}
+
+export function emptyGroup(logical: "AND" | "OR" = "AND"): GroupDraft {
+  return { kind: "group", id: newId(), logical, not: false, children: [] };
+}
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return Array.isArray((node as FilterGroup).filters);
+}
+
+// ---- Tree edits (all immutable) ----
+
+function mapGroup(group: GroupDraft, fn: (node: DraftNode) => DraftNode | null): GroupDraft {
+  const children: DraftNode[] = [];
+  for (const child of group.children) {
+    const mapped = fn(child);
+    if (!mapped) continue;
+    children.push(mapped.kind === "group" ? mapGroup(mapped, fn) : mapped);
+  }
+  return { ...group, children };
+}
+
+export function findNode(root: GroupDraft, id: string): DraftNode | undefined {
+  if (root.id === id) return root;
+  for (const child of root.children) {
+    if (child.id === id) return child;
+    if (child.kind === "group") {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+export function updateNode(root: GroupDraft, id: string, fn: (node: DraftNode) => DraftNode): GroupDraft {
+  if (root.id === id) return fn(root) as GroupDraft;
+  return mapGroup(root, (n) => (n.id === id ? fn(n) : n));
+}
+
+export function removeNode(root: GroupDraft, id: string): GroupDraft {
+  return mapGroup(root, (n) => (n.id === id ? null : n));
+}
+
+export function appendChild(root: GroupDraft, groupId: string, node: DraftNode): GroupDraft {
+  return updateNode(root, groupId, (g) => (g.kind === "group" ? { ...g, children: [...g.children, node] } : g));
+}
+
+/**
+ * Moves node `id` into group `targetGroupId` at `index` (end when omitted).
+ * Moving a group into itself or one of its descendants is ignored.
+ */
+export function moveNode(root: GroupDraft, id: string, targetGroupId: string, index?: number): GroupDraft {
+  const node = findNode(root, id);
+  if (!node || node.id === root.id) return root;
+  if (node.kind === "group" && findNode(node, targetGroupId)) return root;
+  const target = findNode(root, targetGroupId);
+  if (target?.kind !== "group") return root;
+
+  // Indexes refer to the target before removal; adjust when moving down within the same group.
+  const from = target.children.findIndex((c) => c.id === id);
+  let at = index ?? target.children.length;
+  if (from !== -1 && from < at) at--;
+
+  const without = removeNode(root, id);
+  return updateNode(without, targetGroupId, (g) => {
+    if (g.kind !== "group") return g;
+    const children = [...g.children];
+    children.splice(Math.min(at, children.length), 0, node);
+    return { ...g, children };
+  });
+}
+
+// ---- Compilation to the wire format ----
+
+/** The shape of value an operator takes. */
+export function valueShape(op: FilterOp): "none" | "list" | "range" | "scalar" {
+  if (NO_VALUE_OPS.has(op)) return "none";
+  if (op === "between") return "range";
+  if (ARRAY_VALUE_OPS.has(op)) return "list";
+  return "scalar";
+}
+
+/**
+ * The value a condition starts with after its column or operator changes. A
+ * boolean switch has no "empty" position, so it starts at false rather than
+ * showing false while sending nothing.
+ */
+export function initialValue(op: FilterOp, type?: ColumnDataType): DraftValue | undefined {
+  return type === "boolean" && valueShape(op) === "scalar" ? false : undefined;
+}
+
+function asList(value?: DraftValue): string[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === "" ? [] : [String(value)];
+}
+
+function compileCondition(c: ConditionDraft, columnTypes: Record<string, ColumnDataType | undefined>) {
+  if (!c.column) return null;
+  const { column, op } = c;
+  const coerce = (v: string) => coerceValue(v, columnTypes[column]);
+  switch (valueShape(op)) {
+    case "none":
+      return { column, op } as FilterCondition;
+    case "range": {
+      const [low, high] = asList(c.value).map((s) => s.trim());
+      if (!low || !high) return null;
+      return { column, op, value: [coerce(low), coerce(high)] } as FilterCondition;
+    }
+    case "list": {
+      const arr = asList(c.value).filter((s) => s.trim().length > 0);
+      if (!arr.length) return null;
+      return { column, op, value: arr.map(coerce) } as FilterCondition;
+    }
+    default:
+      if (typeof c.value === "boolean") return { column, op, value: c.value } as FilterCondition;
+      if (Array.isArray(c.value) || !c.value?.trim()) return null;
+      return { column, op, value: coerce(c.value) } as FilterCondition;
+  }
+}
+
+/**
+ * Turns the edited tree into filter nodes, dropping incomplete rows and
+ * empty groups. Single-child groups are unwrapped and nested groups with the
+ * same operator are merged into their parent, unless negated.
+ */
+export function compileFilters(
+  group: GroupDraft,
+  columnTypes: Record<string, ColumnDataType | undefined> = {}
+): FilterGroup | null {
+  const filters: FilterNode[] = [];
+  for (const child of group.children) {
+    if (child.kind === "condition") {
+      const c = compileCondition(child, columnTypes);
+      if (c) filters.push(c);
+      continue;
+    }
+    const sub = compileFilters(child, columnTypes);
+    if (!sub) continue;
+    if (!sub.not && (sub.logical_operator === group.logical || sub.filters.length === 1)) {
+      filters.push(...sub.filters);
+    } else {
+      filters.push(sub);
+    }
+  }
+  if (!filters.length) return null;
+  if (filters.length === 1 && !group.not && isFilterGroup(filters[0])) return filters[0];
+  return { logical_operator: group.logical, not: group.not || undefined, filters };
+}
+
+/**
+ * The filter part of a QueryBody. A flat, non-negated tree is sent in the
+ * original `filters` + `logical_operator` shape so older backends keep
+ * working; anything else nests groups inside `filters`.
+ */
+export function serializeFilters(root: FilterGroup | null): Pick<QueryBody, "filters" | "logical_operator" | "not"> {
+  if (!root) return { filters: [], logical_operator: "AND" };
+  return root.not
+    ? { filters: root.filters, logical_operator: root.logical_operator, not: true }
+    : { filters: root.filters, logical_operator: root.logical_operator };
+}
+
+/** Rebuilds an editable tree from wire-format filters, e.g. from a saved query. */
+export function draftFromFilters(filters: FilterNode[], logical: "AND" | "OR" = "AND", not = false): GroupDraft {
+  const toDraft = (node: FilterNode): DraftNode =>
+    isFilterGroup(node)
+      ? draftFromFilters(node.filters, node.logical_operator, !!node.not)
+      : {
+          kind: "condition",
+          id: newId(),
+          column: node.column,
+          op: node.op,
+          value: Array.isArray(node.value)
+            ? node.value.map(String)
+            : typeof node.value === "boolean"
+              ? node.value
+              : node.value === undefined || node.value === null
+                ? undefined
+                : String(node.value),
+        };
+  return { ...emptyGroup(logical), not, children: filters.map(toDraft) };
+}
+
+/** True when the query only uses features older backends understand. */
+export function isFlat(filters: Pick<QueryBody, "filters" | "not">) {
+  return !filters.not && filters.filters.every((f) => !isFilterGroup(f));
+}
@@ -0,0 +1,32 @@
+/**
+ * Splits a byte stream of newline-delimited JSON into lines. Chunks may end
+ * mid-line or mid-character; the remainder is carried into the next chunk.
+ */
+export class LineSplitter {
+  private decoder = new TextDecoder();
+  private rest = "";
+
+  /** Complete lines in `chunk` plus what was carried over; blank lines are skipped. */
+  push(chunk: Uint8Array): string[] {
+    const text = this.rest + this.decoder.decode(chunk, { stream: true });
+    const lines = text.split("\n");
+    this.rest = lines.pop() ?? "";
+    return clean(lines);
+  }
+
+  /** The last line, when the stream does not end with a newline. */
+  flush(): string[] {
+    const text = this.rest + this.decoder.decode();
+    this.rest = "";
+    return clean([text]);
+  }
+}
+
+function clean(lines: string[]) {
+  const out: string[] = [];
+  for (const line of lines) {
+    const l = line.endsWith("\r") ? line.slice(0, -1) : line;
+    if (l.trim()) out.push(l);
+  }
+  return out;
+}
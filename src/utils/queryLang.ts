@@ -0,0 +1,446 @@
+import type { FilterCondition, FilterGroup, FilterNode, FilterOp, QueryBody, SortKey } from "@/utils/api";
+import { coerceValue, type ColumnDataType } from "@/utils/columnTypes";
+import { isFilterGroup } from "@/utils/filterTree";
+
+/**
+ * A small SQL-like query language for the query bar, e.g.
+ *
+ *   revenue > 1000 and country in ("DE", "AT") order by date desc, id limit 500
+ *
+ * Conditions combine with `and`/`or`/`not` and parentheses; column names that
+ * are not plain identifiers (or clash with keywords) are written in backticks.
+ */
+
+export interface ParsedQuery {
+  filters: FilterGroup | null;
+  order_by?: SortKey[];
+  limit?: number;
+  offset?: number;
+}
+
+export class QuerySyntaxError extends Error {
+  /** Offset of the offending text in the input. */
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end = start + 1) {
+    super(message);
+    this.name = "QuerySyntaxError";
+    this.start = start;
+    this.end = end;
+  }
+}
+
+export const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "in_range",
+  "like",
+  "between",
+  "is",
+  "null",
+  "true",
+  "false",
+  "order",
+  "by",
+  "asc",
+  "desc",
+  "limit",
+  "offset",
+]);
+
+const COMPARISONS: Record<string, FilterOp> = {
+  "=": "eq",
+  "==": "eq",
+  "!=": "neq",
+  "<>": "neq",
+  "<": "lt",
+  "<=": "lte",
+  ">": "gt",
+  ">=": "gte",
+};
+
+const OP_TEXT: Partial<Record<FilterOp, string>> = {
+  eq: "=",
+  neq: "!=",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+};
+
+// ---- Tokenizer ----
+
+type TokenKind = "word" | "quoted" | "string" | "number" | "symbol" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  /** Unescaped content for strings and quoted identifiers. */
+  value: string;
+  start: number;
+  end: number;
+}
+
+const IDENT_RE = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const NUMBER_RE = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const SYMBOL_RE = /^(==|!=|<>|<=|>=|=|<|>|\(|\)|,)/;
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r" };
+
+function readQuoted(input: string, start: number, quote: string) {
+  let value = "";
+  let i = start + 1;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === quote) {
+      // Backticked identifiers escape a backtick by doubling it.
+      if (quote === "`" && input[i + 1] === "`") {
+        value += "`";
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    if (ch === "\\" && quote !== "`" && i + 1 < input.length) {
+      const next = input[i + 1];
+      if (next === "u" && /^[0-9a-fA-F]{4}$/.test(input.slice(i + 2, i + 6))) {
+        value += String.fromCharCode(parseInt(input.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  throw new QuerySyntaxError(quote === "`" ? "Unterminated column name" : "Unterminated string", start, input.length);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const rest = input.slice(i);
+    const ch = input[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const { value, end } = readQuoted(input, i, ch);
+      tokens.push({ kind: ch === "`" ? "quoted" : "string", text: input.slice(i, end), value, start: i, end });
+      i = end;
+      continue;
+    }
+    const num = NUMBER_RE.exec(rest);
+    if (num) {
+      tokens.push({ kind: "number", text: num[0], value: num[0], start: i, end: i + num[0].length });
+      i += num[0].length;
+      continue;
+    }
+    const sym = SYMBOL_RE.exec(rest);
+    if (sym) {
+      tokens.push({ kind: "symbol", text: sym[0], value: sym[0], start: i, end: i + sym[0].length });
+      i += sym[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(rest);
+    if (word) {
+      tokens.push({ kind: "word", text: word[0], value: word[0], start: i, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+    throw new QuerySyntaxError(`Unexpected character "${ch}"`, i);
+  }
+  tokens.push({ kind: "eof", text: "", value: "", start: input.length, end: input.length });
+  return tokens;
+}
+
+// ---- Parser ----
+
+function describe(t: Token) {
+  return t.kind === "eof" ? "end of query" : `"${t.text}"`;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly columns?: Set<string>,
+    private readonly columnTypes: Record<string, ColumnDataType | undefined> = {}
+  ) {}
+
+  private peek() {
+    return this.tokens[this.pos];
+  }
+
+  private next() {
+    return this.tokens[this.pos++];
+  }
+
+  private isKeyword(word: string, t = this.peek()) {
+    return t.kind === "word" && t.text.toLowerCase() === word;
+  }
+
+  private acceptKeyword(word: string) {
+    if (!this.isKeyword(word)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expectKeyword(word: string) {
+    const t = this.peek();
+    if (!this.acceptKeyword(word)) throw new QuerySyntaxError(`Expected "${word}" but found ${describe(t)}`, t.start, t.end);
+  }
+
+  private expectSymbol(symbol: string) {
+    const t = this.next();
+    if (t.kind !== "symbol" || t.text !== symbol) {
+      throw new QuerySyntaxError(`Expected "${symbol}" but found ${describe(t)}`, t.start, t.end);
+    }
+  }
+
+  private atClause() {
+    return this.isKeyword("order") || this.isKeyword("limit") || this.isKeyword("offset");
+  }
+
+  parse(): ParsedQuery {
+    const result: ParsedQuery = { filters: null };
+    if (this.peek().kind !== "eof" && !this.atClause()) {
+      const node = this.parseOr();
+      result.filters = isFilterGroup(node) ? node : { logical_operator: "AND", filters: [node] };
+    }
+    while (this.peek().kind !== "eof") {
+      const t = this.peek();
+      if (this.acceptKeyword("order")) {
+        if (result.order_by) throw new QuerySyntaxError("Duplicate order by", t.start, t.end);
+        this.expectKeyword("by");
+        result.order_by = [this.parseSortKey()];
+        while (this.peek().kind === "symbol" && this.peek().text === ",") {
+          this.pos++;
+          result.order_by.push(this.parseSortKey());
+        }
+      } else if (this.acceptKeyword("limit")) {
+        if (result.limit !== undefined) throw new QuerySyntaxError("Duplicate limit", t.start, t.end);
+        result.limit = this.parseCount(1);
+      } else if (this.acceptKeyword("offset")) {
+        if (result.offset !== undefined) throw new QuerySyntaxError("Duplicate offset", t.start, t.end);
+        result.offset = this.parseCount(0);
+      } else {
+        const hint = result.filters ? `Expected "and", "or", "order by" or "limit"` : "Expected a condition";
+        throw new QuerySyntaxError(`${hint} but found ${describe(t)}`, t.start, t.end);
+      }
+    }
+    return result;
+  }
+
+  // `nulls first`/`nulls last` are only special here, so they are not reserved words.
+  private parseSortKey(): SortKey {
+    const column = this.parseColumn();
+    const key: SortKey = { column, direction: this.acceptKeyword("desc") ? "desc" : "asc" };
+    if (key.direction === "asc") this.acceptKeyword("asc");
+    if (this.acceptKeyword("nulls")) {
+      const t = this.next();
+      if (!this.isKeyword("first", t) && !this.isKeyword("last", t)) {
+        throw new QuerySyntaxError(`Expected "first" or "last" but found ${describe(t)}`, t.start, t.end);
+      }
+      key.nulls = t.text.toLowerCase() as "first" | "last";
+    }
+    return key;
+  }
+
+  private parseCount(min: number) {
+    const t = this.next();
+    const n = Number(t.text);
+    if (t.kind !== "number" || !Number.isInteger(n) || n < min) {
+      throw new QuerySyntaxError(`Expected a whole number${min ? " above 0" : ""} but found ${describe(t)}`, t.start, t.end);
+    }
+    return n;
+  }
+
+  private parseLogical(op: "AND" | "OR", parseOperand: () => FilterNode): FilterNode {
+    const first = parseOperand();
+    const keyword = op.toLowerCase();
+    if (!this.isKeyword(keyword)) return first;
+    const filters: FilterNode[] = [];
+    const push = (node: FilterNode) => {
+      // a and (b and c) reads the same as a and b and c
+      if (isFilterGroup(node) && !node.not && node.logical_operator === op) filters.push(...node.filters);
+      else filters.push(node);
+    };
+    push(first);
+    while (this.acceptKeyword(keyword)) push(parseOperand());
+    return { logical_operator: op, filters };
+  }
+
+  private parseOr(): FilterNode {
+    return this.parseLogical("OR", () => this.parseAnd());
+  }
+
+  private parseAnd(): FilterNode {
+    return this.parseLogical("AND", () => this.parseUnary());
+  }
+
+  private parseUnary(): FilterNode {
+    if (this.acceptKeyword("not")) return negate(this.parseUnary());
+    const t = this.peek();
+    if (t.kind === "symbol" && t.text === "(") {
+      this.pos++;
+      const node = this.parseOr();
+      this.expectSymbol(")");
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseColumn() {
+    const t = this.next();
+    const isIdent = (t.kind === "word" && !KEYWORDS.has(t.text.toLowerCase())) || t.kind === "quoted";
+    if (!isIdent) throw new QuerySyntaxError(`Expected a column name but found ${describe(t)}`, t.start, t.end);
+    if (this.columns?.size && !this.columns.has(t.value)) {
+      throw new QuerySyntaxError(`Unknown column "${t.value}"`, t.start, t.end);
+    }
+    return t.value;
+  }
+
+  private parseCondition(): FilterNode {
+    const column = this.parseColumn();
+    const t = this.peek();
+
+    if (t.kind === "symbol" && COMPARISONS[t.text]) {
+      this.pos++;
+      return { column, op: COMPARISONS[t.text], value: this.parseValue(column) };
+    }
+    if (this.acceptKeyword("is")) {
+      const op = this.acceptKeyword("not") ? "is_not_null" : "is_null";
+      this.expectKeyword("null");
+      return { column, op };
+    }
+    const negated = this.acceptKeyword("not");
+    let condition: FilterCondition;
+    if (this.acceptKeyword("like")) {
+      condition = { column, op: "like", value: this.parseValue(column) };
+    } else if (this.acceptKeyword("in")) {
+      condition = { column, op: "in", value: this.parseList(column) };
+    } else if (this.acceptKeyword("in_range")) {
+      condition = { column, op: "in_range", value: this.parseList(column) };
+    } else if (this.acceptKeyword("between")) {
+      const low = this.parseValue(column);
+      this.expectKeyword("and");
+      condition = { column, op: "between", value: [low, this.parseValue(column)] };
+    } else {
+      const found = this.peek();
+      throw new QuerySyntaxError(`Expected an operator after "${column}" but found ${describe(found)}`, found.start, found.end);
+    }
+    return negated ? negate(condition) : condition;
+  }
+
+  private parseList(column: string) {
+    this.expectSymbol("(");
+    const values = [this.parseValue(column)];
+    while (this.peek().kind === "symbol" && this.peek().text === ",") {
+      this.pos++;
+      values.push(this.parseValue(column));
+    }
+    this.expectSymbol(")");
+    return values;
+  }
+
+  // Numbers are read as the column's type, so `zip = 01234` stays "01234" on a text column.
+  private parseValue(column: string): unknown {
+    const t = this.next();
+    if (t.kind === "string") return t.value;
+    if (t.kind === "number") return coerceValue(t.text, this.columnTypes[column]);
+    if (this.isKeyword("true", t)) return true;
+    if (this.isKeyword("false", t)) return false;
+    throw new QuerySyntaxError(`Expected a value but found ${describe(t)}`, t.start, t.end);
+  }
+}
+
+function negate(node: FilterNode): FilterGroup {
+  if (isFilterGroup(node) && !node.not) return { ...node, not: true };
+  return { logical_operator: "AND", not: true, filters: [node] };
+}
+
+/**
+ * Parses query bar text. Throws a QuerySyntaxError pointing at the offending
+ * text; when `columns` is given, unknown column names are errors too. Number
+ * literals follow `columnTypes` where it names the column's type.
+ */
+export function parseQuery(
+  input: string,
+  columns?: string[],
+  columnTypes?: Record<string, ColumnDataType | undefined>
+): ParsedQuery {
+  return new Parser(tokenize(input), columns ? new Set(columns) : undefined, columnTypes).parse();
+}
+
+// ---- Formatter ----
+
+export function formatColumn(name: string) {
+  return IDENT_RE.test(name) && !KEYWORDS.has(name.toLowerCase()) ? name : "`" + name.replace(/`/g, "``") + "`";
+}
+
+function formatValue(v: unknown): string {
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  if (typeof v === "string") return JSON.stringify(v);
+  return JSON.stringify(String(v));
+}
+
+// Operators that read naturally negated in place: `a not in (...)` rather than `not (a in (...))`.
+const NEGATABLE_OPS = new Set<FilterOp>(["like", "in", "in_range", "between"]);
+
+function formatCondition(c: FilterCondition, negated = false) {
+  const column = formatColumn(c.column) + (negated ? " not" : "");
+  const list = () => (Array.isArray(c.value) ? c.value : [c.value]).map(formatValue).join(", ");
+  switch (c.op) {
+    case "is_null":
+      return `${column} is null`;
+    case "is_not_null":
+      return `${column} is not null`;
+    case "in":
+    case "in_range":
+      return `${column} ${c.op} (${list()})`;
+    case "between": {
+      const [low, high] = Array.isArray(c.value) ? c.value : [];
+      return `${column} between ${formatValue(low)} and ${formatValue(high)}`;
+    }
+    case "like":
+      return `${column} like ${formatValue(c.value)}`;
+    default:
+      return `${column} ${OP_TEXT[c.op]} ${formatValue(c.value)}`;
+  }
+}
+
+function formatNode(node: FilterNode, nested: boolean): string {
+  if (!isFilterGroup(node)) return formatCondition(node);
+  const [only] = node.filters;
+  if (node.not && node.filters.length === 1 && !isFilterGroup(only) && NEGATABLE_OPS.has(only.op)) {
+    return formatCondition(only, true);
+  }
+  const inner = node.filters.map((f) => formatNode(f, true)).join(` ${node.logical_operator.toLowerCase()} `);
+  if (node.not) return `not (${inner})`;
+  return nested && node.filters.length > 1 ? `(${inner})` : inner;
+}
+
+/** Renders a query as query bar text; the inverse of parseQuery. */
+export function formatQuery(query: Pick<QueryBody, "filters" | "logical_operator" | "not" | "order_by" | "limit" | "offset">) {
+  const parts: string[] = [];
+  if (query.filters.length) {
+    parts.push(formatNode({ filters: query.filters, logical_operator: query.logical_operator, not: query.not }, false));
+  }
+  if (query.order_by?.length) {
+    const keys = query.order_by.map(
+      (k) => `${formatColumn(k.column)} ${k.direction}` + (k.nulls ? ` nulls ${k.nulls}` : "")
+    );
+    parts.push(`order by ${keys.join(", ")}`);
+  }
+  if (query.limit !== undefined) parts.push(`limit ${query.limit}`);
+  if (query.offset) parts.push(`offset ${query.offset}`);
+  return parts.join(" ");
+}
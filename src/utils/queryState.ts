@@ -0,0 +1,135 @@
+import type { Aggregate, FilterNode, FilterOp, GroupKey, QueryBody, TimeBucket } from "@/utils/api";
+import { AGGREGATE_FNS, TIME_BUCKETS } from "@/utils/aggregates";
+import { FILTER_OPS } from "@/utils/filterTree";
+import { normalizeSortKeys } from "@/utils/sortKeys";
+
+/**
+ * The parts of a query that are shared through links; anything left out
+ * takes its default. Filters are kept in wire format.
+ */
+export type QueryState = Partial<
+  Pick<QueryBody, "filters" | "logical_operator" | "not" | "order_by" | "limit" | "offset" | "fields" | "group_by" | "aggregates" | "pagination">
+>;
+
+export const DEFAULT_LIMIT = 100;
+
+/** Route of the query view for a table, optionally with an encoded query. */
+export function tablePath(table: string, query?: QueryState) {
+  const q = query ? encodeQueryState(query) : "";
+  return `/tables/${encodeURIComponent(table)}` + (q ? `?q=${q}` : "");
+}
+
+/** Drops parts that equal their defaults, so links stay short and stable. */
+export function compactQueryState(body: QueryState): QueryState {
+  const state: QueryState = {};
+  if (Array.isArray(body.filters) && body.filters.length) {
+    state.filters = body.filters;
+    if (body.logical_operator && body.logical_operator !== "AND") state.logical_operator = body.logical_operator;
+    if (body.not) state.not = true;
+  }
+  const orderBy = normalizeSortKeys(body.order_by);
+  if (orderBy.length) state.order_by = orderBy;
+  if (body.limit !== undefined && body.limit !== DEFAULT_LIMIT) state.limit = body.limit;
+  if (body.offset) state.offset = body.offset;
+  if (Array.isArray(body.fields) && body.fields.length) state.fields = body.fields;
+  if (Array.isArray(body.group_by) && body.group_by.length) state.group_by = body.group_by;
+  if (Array.isArray(body.aggregates) && body.aggregates.length) state.aggregates = body.aggregates;
+  if (body.pagination === "keyset") state.pagination = "keyset";
+  return state;
+}
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/** Encodes a query for the `q` URL parameter; empty when everything is default. */
+export function encodeQueryState(body: QueryState) {
+  const state = compactQueryState(body);
+  return Object.keys(state).length ? toBase64Url(JSON.stringify(state)) : "";
+}
+
+// ---- Reading untrusted state ----
+
+type Json = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is Json => !!v && typeof v === "object" && !Array.isArray(v);
+const isScalar = (v: unknown) => v === null || ["string", "number", "boolean"].includes(typeof v);
+const isCount = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v) && v >= 0;
+const nonEmptyString = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+
+function readValue(v: unknown) {
+  if (Array.isArray(v)) return v.every(isScalar) ? { value: v } : undefined;
+  return v !== undefined && isScalar(v) ? { value: v } : undefined;
+}
+
+/** The well-formed nodes of a filter list; malformed ones and groups left empty are dropped. */
+function readFilters(raw: unknown): FilterNode[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((node): FilterNode[] => {
+    if (!isRecord(node)) return [];
+    if ("filters" in node) {
+      const filters = readFilters(node.filters);
+      if (!filters.length) return [];
+      const logical_operator = node.logical_operator === "OR" ? "OR" : "AND";
+      return [node.not === true ? { logical_operator, not: true, filters } : { logical_operator, filters }];
+    }
+    if (!nonEmptyString(node.column) || !FILTER_OPS.includes(node.op as FilterOp)) return [];
+    return [{ column: node.column, op: node.op as FilterOp, ...readValue(node.value) }];
+  });
+}
+
+function readGroupKeys(raw: unknown): GroupKey[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isRecord).flatMap((k): GroupKey[] => {
+    if (!nonEmptyString(k.column)) return [];
+    const bucket = TIME_BUCKETS.includes(k.bucket as TimeBucket) ? { bucket: k.bucket as TimeBucket } : undefined;
+    const alias = nonEmptyString(k.alias) ? { alias: k.alias } : undefined;
+    return [{ column: k.column, ...bucket, ...alias }];
+  });
+}
+
+function readAggregates(raw: unknown): Aggregate[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isRecord).flatMap((a): Aggregate[] => {
+    const fn = AGGREGATE_FNS.find((f) => f.fn === a.fn)?.fn;
+    if (!fn || !nonEmptyString(a.alias)) return [];
+    const column = nonEmptyString(a.column) ? { column: a.column } : undefined;
+    const percentile = typeof a.percentile === "number" ? { percentile: a.percentile } : undefined;
+    return [{ fn, alias: a.alias, ...column, ...percentile }];
+  });
+}
+
+/** Keeps only the parts of a decoded link that have the expected shape, so a bad one cannot break the page. */
+function readQueryState(raw: Json): QueryState {
+  return {
+    filters: readFilters(raw.filters),
+    logical_operator: raw.logical_operator === "OR" ? "OR" : "AND",
+    not: raw.not === true,
+    order_by: normalizeSortKeys(raw.order_by),
+    limit: isCount(raw.limit) && raw.limit > 0 ? raw.limit : undefined,
+    offset: isCount(raw.offset) ? raw.offset : undefined,
+    fields: Array.isArray(raw.fields) ? raw.fields.filter(nonEmptyString) : undefined,
+    group_by: readGroupKeys(raw.group_by),
+    aggregates: readAggregates(raw.aggregates),
+    pagination: raw.pagination === "keyset" ? "keyset" : undefined,
+  };
+}
+
+/** Decodes the `q` URL parameter; a missing or mangled value yields the default query. */
+export function decodeQueryState(encoded?: string | null): QueryState {
+  if (!encoded) return {};
+  try {
+    const state = JSON.parse(fromBase64Url(encoded));
+    return isRecord(state) ? compactQueryState(readQueryState(state)) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * A random v4 UUID. `crypto.randomUUID` only exists in secure contexts, and the
+ * app is often opened over plain http against a local backend, so it falls back
+ * to `getRandomValues`, which works everywhere.
+ */
+export function randomId(): string {
+  if (globalThis.crypto?.randomUUID) return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,34 @@
+export interface SchemaDiff {
+  /** Table columns the file does not provide. */
+  missing: string[];
+  /** File columns the table does not have. */
+  extra: string[];
+  /** File columns that likely correspond to a table column under a different spelling. */
+  renamed: { from: string; to: string }[];
+}
+
+// "Order ID", "order_id" and "orderId" all normalize to "orderid".
+function normalize(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Compares the columns of a file with those of the table it will be written into. */
+export function diffColumns(fileColumns: string[], tableColumns: string[]): SchemaDiff {
+  const inTable = new Set(tableColumns);
+  const inFile = new Set(fileColumns);
+  let missing = tableColumns.filter((c) => !inFile.has(c));
+  let extra = fileColumns.filter((c) => !inTable.has(c));
+
+  const renamed: SchemaDiff["renamed"] = [];
+  for (const from of extra) {
+    const to = missing.find((m) => normalize(m) === normalize(from));
+    if (to) renamed.push({ from, to });
+  }
+  missing = missing.filter((m) => !renamed.some((r) => r.to === m));
+  extra = extra.filter((e) => !renamed.some((r) => r.from === e));
+  return { missing, extra, renamed };
+}
+
+export function isCompatible(diff: SchemaDiff) {
+  return !diff.missing.length && !diff.extra.length && !diff.renamed.length;
+}
@@ -0,0 +1,33 @@
+import type { SortKey } from "@/utils/api";
+
+/**
+ * Reads `order_by` from a link or saved query. Older ones hold a single
+ * `{column, direction}` object rather than a list.
+ */
+export function normalizeSortKeys(raw: unknown): SortKey[] {
+  const list = Array.isArray(raw) ? raw : raw && typeof raw === "object" ? [raw] : [];
+  return list
+    .filter((k): k is SortKey => !!k && typeof k.column === "string" && k.column.length > 0)
+    .map((k) => ({
+      column: k.column,
+      direction: k.direction === "desc" ? "desc" : "asc",
+      ...(k.nulls === "first" || k.nulls === "last" ? { nulls: k.nulls } : undefined),
+    }));
+}
+
+/**
+ * Header click behaviour: a plain click sorts by the column alone, cycling
+ * asc → desc → unsorted; with `additive` (shift-click) the column is added as
+ * the next key or cycled in place, keeping the other keys.
+ */
+export function toggleSort(sort: SortKey[], column: string, additive: boolean): SortKey[] {
+  const existing = sort.find((k) => k.column === column);
+  const next: SortKey | null = !existing
+    ? { column, direction: "asc" }
+    : existing.direction === "asc"
+      ? { ...existing, direction: "desc" }
+      : null;
+  if (!additive) return next ? [next] : [];
+  if (!existing) return [...sort, next!];
+  return next ? sort.map((k) => (k.column === column ? next : k)) : sort.filter((k) => k.column !== column);
+}